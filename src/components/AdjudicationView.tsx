@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChevronLeft, ChevronRight, Gavel, MessageSquare, SkipForward } from 'lucide-react';
+import type { Annotation } from './AnnotationInterface';
+import { NO_LABEL, type Disagreement } from '@/lib/agreement';
+import { annotationsInSpan, findDisputes, goldLabelOf, hasGoldLayer, recordGoldLabel } from '@/lib/adjudication';
+import { GOLD_ANNOTATOR, resolveAnnotator, type Annotator } from '@/lib/annotators';
+import { resolveLevel, withAlpha, type RelevanceScale } from '@/lib/relevance-scale';
+
+interface AdjudicationViewProps {
+  content: string;
+  annotations: Annotation[];
+  annotators: Annotator[];
+  scale: RelevanceScale;
+  onAnnotationsChange: (annotations: Annotation[]) => void;
+}
+
+// Characters of surrounding text shown on each side of the disputed span
+const CONTEXT_LENGTH = 80;
+
+const spanKey = (span: Disagreement) => `${span.start}:${span.end}`;
+
+const AdjudicationView: React.FC<AdjudicationViewProps> = ({
+  content,
+  annotations,
+  annotators,
+  scale,
+  onAnnotationsChange
+}) => {
+  const [index, setIndex] = useState(0);
+  // "Leave unmarked" writes nothing to the gold layer, so those decisions are remembered here
+  const [unmarkedKeys, setUnmarkedKeys] = useState<string[]>([]);
+
+  const disputes = useMemo(() => findDisputes(content, annotations, scale), [content, annotations, scale]);
+  const goldLabels = useMemo(
+    () => disputes.map(dispute => goldLabelOf(content, annotations, scale, dispute)),
+    [disputes, content, annotations, scale]
+  );
+
+  const isDecided = (position: number) =>
+    goldLabels[position] !== NO_LABEL || unmarkedKeys.includes(spanKey(disputes[position]));
+  const decidedCount = disputes.filter((_, position) => isDecided(position)).length;
+
+  if (disputes.length === 0) {
+    return (
+      <Card className="p-8 text-center">
+        <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+          <Gavel className="w-8 h-8 text-muted-foreground" />
+        </div>
+        <h3 className="text-lg font-semibold text-foreground mb-2">Nothing to Adjudicate</h3>
+        <p className="text-muted-foreground">
+          Spans show up here once at least two annotators have labelled the response differently.
+        </p>
+      </Card>
+    );
+  }
+
+  const current = Math.min(index, disputes.length - 1);
+  const dispute = disputes[current];
+  const annotatorIds = Object.keys(dispute.labels);
+  const goldLabel = goldLabels[current];
+
+  const labelName = (label: string) => {
+    if (label === NO_LABEL) return 'Unlabelled';
+    const level = resolveLevel(scale, label);
+    return `${level.emoji} ${level.label}`;
+  };
+
+  const nextUndecided = (from: number) => {
+    for (let offset = 1; offset <= disputes.length; offset++) {
+      const position = (from + offset) % disputes.length;
+      if (!isDecided(position)) return position;
+    }
+    return from;
+  };
+
+  const decide = (label: string | null) => {
+    onAnnotationsChange(recordGoldLabel(content, annotations, scale, dispute, label));
+    const key = spanKey(dispute);
+    setUnmarkedKeys(keys => label === null ? [...keys.filter(k => k !== key), key] : keys.filter(k => k !== key));
+    // The decision only shows up in goldLabels on the next render, so skip the current span explicitly
+    const next = nextUndecided(current);
+    setIndex(next === current ? Math.min(current + 1, disputes.length - 1) : next);
+  };
+
+  const contextStart = Math.max(0, dispute.start - CONTEXT_LENGTH);
+  const contextEnd = Math.min(content.length, dispute.end + CONTEXT_LENGTH);
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <Gavel className="w-5 h-5" />
+            <h3 className="text-lg font-semibold text-foreground">Adjudication</h3>
+            <Badge variant="secondary" className="text-xs">
+              {decidedCount} of {disputes.length} decided
+            </Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIndex(current - 1)} disabled={current === 0}>
+              <ChevronLeft className="w-4 h-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {current + 1} / {disputes.length}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setIndex(current + 1)} disabled={current === disputes.length - 1}>
+              Next
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIndex(nextUndecided(current))}
+              disabled={decidedCount === disputes.length}
+            >
+              <SkipForward className="w-4 h-4" />
+              Next undecided
+            </Button>
+          </div>
+        </div>
+
+        <div className="p-4 mb-6 rounded-lg border bg-background text-sm leading-relaxed whitespace-pre-wrap">
+          {contextStart > 0 && '…'}
+          {content.slice(contextStart, dispute.start)}
+          <span
+            className="rounded-sm font-medium"
+            style={{ backgroundColor: withAlpha(GOLD_ANNOTATOR.color, 0.3), borderBottom: `2px solid ${GOLD_ANNOTATOR.color}` }}
+          >
+            {content.slice(dispute.start, dispute.end)}
+          </span>
+          {content.slice(dispute.end, contextEnd)}
+          {contextEnd < content.length && '…'}
+        </div>
+
+        <div className="grid gap-4 mb-6" style={{ gridTemplateColumns: `repeat(${Math.min(annotatorIds.length, 4)}, minmax(0, 1fr))` }}>
+          {annotatorIds.map(annotatorId => {
+            const annotator = resolveAnnotator(annotators, annotatorId);
+            const label = dispute.labels[annotatorId];
+            const commented = annotationsInSpan(annotations, annotatorId, dispute).filter(a => a.comment || a.thread?.length);
+            return (
+              <div key={annotatorId} className="p-4 rounded-lg border" style={{ borderTopColor: annotator.color, borderTopWidth: 3 }}>
+                <div className="text-sm font-medium text-foreground mb-2">{annotator.name}</div>
+                <Badge
+                  variant="outline"
+                  className="mb-3"
+                  style={label === NO_LABEL ? undefined : { borderColor: resolveLevel(scale, label).color }}
+                >
+                  {labelName(label)}
+                </Badge>
+                {commented.length > 0 ? (
+                  <div className="space-y-2">
+                    {commented.map(annotation => (
+                      <div key={annotation.id} className="text-xs text-muted-foreground flex gap-1.5">
+                        <MessageSquare className="w-3 h-3 mt-0.5 shrink-0" />
+                        <span>
+                          {annotation.comment || 'No comment'}
+                          {annotation.thread?.length ? ` (${annotation.thread.length} repl${annotation.thread.length === 1 ? 'y' : 'ies'})` : ''}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground italic">No comment</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-foreground mb-2">Gold label</h4>
+          <div className="flex flex-wrap gap-2">
+            {scale.levels.map(level => (
+              <Button
+                key={level.id}
+                variant="outline"
+                size="sm"
+                onClick={() => decide(level.id)}
+                style={goldLabel === level.id
+                  ? { backgroundColor: withAlpha(level.color, 0.2), borderColor: level.color }
+                  : { borderColor: withAlpha(level.color, 0.5) }}
+              >
+                {level.emoji} {level.label}
+              </Button>
+            ))}
+            <Button
+              variant={goldLabel === NO_LABEL && unmarkedKeys.includes(spanKey(dispute)) ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => decide(null)}
+            >
+              Leave unmarked
+            </Button>
+          </div>
+          {!hasGoldLayer(annotations) && (
+            <p className="text-xs text-muted-foreground mt-2">
+              The first decision also copies every span the annotators agree on into the gold layer.
+            </p>
+          )}
+        </div>
+      </Card>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-foreground mb-4">Disputed Spans</h3>
+        <div className="space-y-1">
+          {disputes.map((item, position) => (
+            <button
+              key={spanKey(item)}
+              className={`w-full flex items-center justify-between gap-3 px-3 py-2 rounded-md text-left text-sm border transition-colors ${
+                position === current ? 'border-primary bg-primary/5' : 'border-transparent hover:bg-muted/50'
+              }`}
+              onClick={() => setIndex(position)}
+            >
+              <span className="truncate">"{content.slice(item.start, item.end)}"</span>
+              <span className="text-xs text-muted-foreground shrink-0">
+                {isDecided(position) ? `Gold: ${labelName(goldLabels[position])}` : 'Undecided'}
+              </span>
+            </button>
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default AdjudicationView;
@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users } from 'lucide-react';
+import type { Annotation } from './AnnotationInterface';
+import {
+  AGREEMENT_UNITS,
+  NO_LABEL,
+  computeAgreement,
+  confusionMatrix,
+  describeAgreement,
+  type AgreementUnit,
+  type Disagreement
+} from '@/lib/agreement';
+import { resolveAnnotator, type Annotator } from '@/lib/annotators';
+import { resolveLevel, withAlpha, type RelevanceScale } from '@/lib/relevance-scale';
+
+interface AgreementMetricsProps {
+  content: string;
+  annotations: Annotation[];
+  annotators: Annotator[];
+  scale: RelevanceScale;
+}
+
+const DISAGREEMENT_COLOR = '#ef4444';
+
+const formatScore = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+const AgreementMetrics: React.FC<AgreementMetricsProps> = ({ content, annotations, annotators, scale }) => {
+  const [unit, setUnit] = useState<AgreementUnit>('token');
+  const [selectedPair, setSelectedPair] = useState(0);
+
+  const report = useMemo(() => computeAgreement(content, annotations, scale, unit), [content, annotations, scale, unit]);
+
+  // Scale levels first, then level ids the scale no longer has, then unlabelled text
+  const labels = useMemo(() => {
+    const used = new Set(Object.values(report.ratings).flat());
+    const extra = Array.from(used).filter(label => label !== NO_LABEL && !scale.levels.some(level => level.id === label));
+    return [...scale.levels.map(level => level.id), ...extra, NO_LABEL];
+  }, [report, scale]);
+
+  if (report.annotatorIds.length < 2) return null;
+
+  const nameOf = (annotatorId: string) => resolveAnnotator(annotators, annotatorId).name;
+  const labelName = (label: string) => {
+    if (label === NO_LABEL) return 'Unlabelled';
+    const level = resolveLevel(scale, label);
+    return `${level.emoji} ${level.label}`;
+  };
+  const labelColor = (label: string) => (label === NO_LABEL ? '#9ca3af' : resolveLevel(scale, label).color);
+
+  const pair = report.pairs[Math.min(selectedPair, report.pairs.length - 1)];
+  const matrix = confusionMatrix(report.ratings[pair.first], report.ratings[pair.second], labels);
+  const matrixMax = Math.max(1, ...matrix.flat());
+  const unitName = unit === 'token' ? 'tokens' : 'characters';
+
+  const describeDisagreement = (disagreement: Disagreement) =>
+    report.annotatorIds.map(id => `${nameOf(id)}: ${labelName(disagreement.labels[id])}`).join('\n');
+
+  const renderHighlightedContent = () => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    report.disagreements.forEach((disagreement, index) => {
+      if (disagreement.start > position) parts.push(content.slice(position, disagreement.start));
+      parts.push(
+        <span
+          key={index}
+          className="rounded-sm cursor-help"
+          style={{
+            backgroundColor: withAlpha(DISAGREEMENT_COLOR, 0.18),
+            borderBottom: `2px solid ${DISAGREEMENT_COLOR}`
+          }}
+          title={describeDisagreement(disagreement)}
+        >
+          {content.slice(disagreement.start, disagreement.end)}
+        </span>
+      );
+      position = disagreement.end;
+    });
+    parts.push(content.slice(position));
+    return parts;
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          <h3 className="text-lg font-semibold text-foreground">Inter-Annotator Agreement</h3>
+        </div>
+        <Select value={unit} onValueChange={(value) => setUnit(value as AgreementUnit)}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {AGREEMENT_UNITS.map(option => (
+              <SelectItem key={option.id} value={option.id} className="text-xs">
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="p-4 rounded-lg bg-muted/50">
+          <div className="text-sm text-muted-foreground">Krippendorff's α</div>
+          <div className="text-2xl font-bold text-foreground">{formatScore(report.alpha)}</div>
+          <div className="text-xs text-muted-foreground">
+            {describeAgreement(report.alpha)} · {report.annotatorIds.length} annotators
+          </div>
+        </div>
+        <div className="p-4 rounded-lg bg-muted/50">
+          <div className="text-sm text-muted-foreground">Units compared</div>
+          <div className="text-2xl font-bold text-foreground">{report.segments.length}</div>
+          <div className="text-xs text-muted-foreground">Non-whitespace {unitName}, unlabelled text included</div>
+        </div>
+        <div className="p-4 rounded-lg bg-muted/50">
+          <div className="text-sm text-muted-foreground">Disagreements</div>
+          <div className="text-2xl font-bold text-foreground">{report.disagreements.length}</div>
+          <div className="text-xs text-muted-foreground">Spans where annotators give different labels</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div>
+          <h4 className="text-sm font-medium text-foreground mb-2">Cohen's κ by pair</h4>
+          <div className="space-y-1">
+            {report.pairs.map((item, index) => (
+              <button
+                key={`${item.first}-${item.second}`}
+                className={`w-full flex items-center justify-between gap-3 px-3 py-2 rounded-md text-left text-sm border transition-colors ${
+                  item === pair ? 'border-primary bg-primary/5' : 'border-transparent hover:bg-muted/50'
+                }`}
+                onClick={() => setSelectedPair(index)}
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: resolveAnnotator(annotators, item.first).color }} />
+                  <span className="truncate">{nameOf(item.first)}</span>
+                  <span className="text-muted-foreground">vs</span>
+                  <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: resolveAnnotator(annotators, item.second).color }} />
+                  <span className="truncate">{nameOf(item.second)}</span>
+                </span>
+                <span className="flex items-center gap-2 shrink-0">
+                  <span className="font-semibold">{formatScore(item.kappa)}</span>
+                  <Badge variant="secondary" className="text-xs">{describeAgreement(item.kappa)}</Badge>
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-foreground mb-2">
+            Confusion matrix · {nameOf(pair.first)} (rows) vs {nameOf(pair.second)} (columns)
+          </h4>
+          <div className="overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th />
+                  {labels.map(label => (
+                    <th key={label} className="px-2 py-1 font-medium text-muted-foreground whitespace-nowrap">
+                      {labelName(label)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {labels.map((rowLabel, row) => (
+                  <tr key={rowLabel}>
+                    <th className="px-2 py-1 font-medium text-muted-foreground text-right whitespace-nowrap">
+                      {labelName(rowLabel)}
+                    </th>
+                    {labels.map((columnLabel, column) => {
+                      const count = matrix[row][column];
+                      return (
+                        <td
+                          key={columnLabel}
+                          className={`px-2 py-1 text-center border ${row === column ? 'font-semibold' : ''}`}
+                          style={{
+                            backgroundColor: count > 0
+                              ? withAlpha(row === column ? labelColor(rowLabel) : DISAGREEMENT_COLOR, 0.1 + 0.5 * (count / matrixMax))
+                              : undefined
+                          }}
+                          title={`${nameOf(pair.first)}: ${labelName(rowLabel)}, ${nameOf(pair.second)}: ${labelName(columnLabel)}`}
+                        >
+                          {count}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-foreground mb-2">Where annotators diverge</h4>
+        <div className="max-h-80 overflow-y-auto p-4 rounded-lg border bg-background text-sm leading-relaxed whitespace-pre-wrap">
+          {renderHighlightedContent()}
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Hover a highlighted span to see each annotator's label.
+        </p>
+      </div>
+    </Card>
+  );
+};
+
+export default AgreementMetrics;
@@ -4,11 +4,18 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { TrendingUp, TrendingDown, Target, Zap, Clock, CheckCircle, BarChart3 } from 'lucide-react';
 import type { Annotation } from './AnnotationInterface';
+import AgreementMetrics from './AgreementMetrics';
+import type { Annotator } from '@/lib/annotators';
+import { confidenceOf, formatConfidence, totalConfidence, weightedMean } from '@/lib/confidence';
+import { getTopLevel, isNoiseLevel, normalizeWeight, resolveLevel, type RelevanceScale } from '@/lib/relevance-scale';
 
 interface AnalyticsDashboardProps {
   annotations: Annotation[];
+  scale: RelevanceScale;
   originalPrompt: string;
   originalResponse: string;
+  // Names and colours for the agreement section, shown once two people have annotated
+  annotators?: Annotator[];
 }
 
 interface KPIMetric {
@@ -24,31 +31,34 @@ interface KPIMetric {
 
 const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
   annotations,
+  scale,
   originalPrompt,
-  originalResponse
+  originalResponse,
+  annotators = []
 }) => {
+  // Every metric counts an annotation by its confidence, so tentative marks weigh less
   const metrics = useMemo((): KPIMetric[] => {
-    const totalAnnotations = annotations.length;
-    const highRelevance = annotations.filter(a => a.relevanceLevel === 'high').length;
-    const lowRelevance = annotations.filter(a => a.relevanceLevel === 'low').length;
-    const mediumRelevance = annotations.filter(a => a.relevanceLevel === 'medium').length;
-    const neutralRelevance = annotations.filter(a => a.relevanceLevel === 'neutral').length;
+    const totalWeight = totalConfidence(annotations);
+    const topLevel = getTopLevel(scale);
+    const highRelevance = totalConfidence(annotations.filter(a => a.relevanceLevel === topLevel.id));
+    const noise = totalConfidence(annotations.filter(a => isNoiseLevel(resolveLevel(scale, a.relevanceLevel))));
 
     // Calculate metrics
-    const noiseReductionRatio = totalAnnotations > 0 
-      ? Math.round((lowRelevance / totalAnnotations) * 100) 
+    const noiseReductionRatio = totalWeight > 0 
+      ? Math.round((noise / totalWeight) * 100) 
       : 0;
 
-    const relevanceImprovementScore = totalAnnotations > 0
-      ? Math.round(((highRelevance + mediumRelevance * 0.6 + neutralRelevance * 0.3) / totalAnnotations) * 100)
-      : 0;
+    // Mean position of the annotations between the scale's lowest and highest weights
+    const relevanceImprovementScore = Math.round(
+      weightedMean(annotations, a => normalizeWeight(scale, resolveLevel(scale, a.relevanceLevel).weight)) * 100
+    );
 
     const annotationCoverage = originalResponse.length > 0
-      ? Math.round((annotations.reduce((sum, a) => sum + a.text.length, 0) / originalResponse.length) * 100)
+      ? Math.round((annotations.reduce((sum, a) => sum + confidenceOf(a) * a.text.length, 0) / originalResponse.length) * 100)
       : 0;
 
-    const focusScore = totalAnnotations > 0
-      ? Math.round((highRelevance / totalAnnotations) * 100)
+    const focusScore = totalWeight > 0
+      ? Math.round((highRelevance / totalWeight) * 100)
       : 0;
 
     const iterationReduction = noiseReductionRatio > 30 ? Math.round(noiseReductionRatio / 10) : 0;
@@ -73,7 +83,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         name: 'Noise Reduction Ratio',
         value: noiseReductionRatio,
         unit: '%',
-        description: 'Percentage of content marked as low relevance',
+        description: 'Percentage of annotations on negatively weighted levels',
         trend: noiseReductionRatio > 20 ? 'up' : 'neutral',
         icon: TrendingDown,
         color: 'text-annotation-low'
@@ -103,7 +113,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         name: 'Focus Score',
         value: focusScore,
         unit: '%',
-        description: 'Percentage of content marked as highly relevant',
+        description: `Percentage of annotations marked ${topLevel.label}`,
         trend: focusScore > 40 ? 'up' : 'neutral',
         icon: Target,
         color: 'text-annotation-medium'
@@ -119,17 +129,18 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         color: 'text-muted-foreground'
       }
     ];
-  }, [annotations, originalResponse]);
+  }, [annotations, scale, originalResponse]);
 
   const getAnnotationBreakdown = () => {
-    const total = annotations.length;
-    return {
-      high: { count: annotations.filter(a => a.relevanceLevel === 'high').length, color: 'annotation-high' },
-      medium: { count: annotations.filter(a => a.relevanceLevel === 'medium').length, color: 'annotation-medium' },
-      neutral: { count: annotations.filter(a => a.relevanceLevel === 'neutral').length, color: 'annotation-neutral' },
-      low: { count: annotations.filter(a => a.relevanceLevel === 'low').length, color: 'annotation-low' },
-      total
-    };
+    const total = totalConfidence(annotations);
+    const levels = scale.levels.map(level => {
+      const levelAnnotations = annotations.filter(a => a.relevanceLevel === level.id);
+      return { level, count: levelAnnotations.length, weight: totalConfidence(levelAnnotations) };
+    });
+    const positive = totalConfidence(annotations.filter(a => resolveLevel(scale, a.relevanceLevel).weight > 0));
+    const noise = totalConfidence(annotations.filter(a => isNoiseLevel(resolveLevel(scale, a.relevanceLevel))));
+    const meanConfidence = annotations.length > 0 ? total / annotations.length : 0;
+    return { levels, positive, noise, total, meanConfidence };
   };
 
   const breakdown = getAnnotationBreakdown();
@@ -189,22 +200,22 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
 
       {/* Annotation Breakdown */}
       <Card className="p-6">
-        <h3 className="text-lg font-semibold text-foreground mb-4">Annotation Breakdown</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-foreground">Annotation Breakdown</h3>
+          <Badge variant="outline" className="text-xs" title="Shares are weighted by each annotation's confidence">
+            Mean confidence {formatConfidence(breakdown.meanConfidence)}
+          </Badge>
+        </div>
         
         <div className="space-y-4">
-          {[
-            { key: 'high', label: 'High Relevance', ...breakdown.high },
-            { key: 'medium', label: 'Medium Relevance', ...breakdown.medium },
-            { key: 'neutral', label: 'Neutral', ...breakdown.neutral },
-            { key: 'low', label: 'Low Relevance', ...breakdown.low }
-          ].map((item) => {
-            const percentage = breakdown.total > 0 ? (item.count / breakdown.total) * 100 : 0;
+          {breakdown.levels.map((item) => {
+            const percentage = breakdown.total > 0 ? (item.weight / breakdown.total) * 100 : 0;
             
             return (
-              <div key={item.key} className="flex items-center gap-4">
+              <div key={item.level.id} className="flex items-center gap-4">
                 <div className="flex items-center gap-2 min-w-32">
-                  <div className={`w-3 h-3 rounded bg-${item.color}`} />
-                  <span className="text-sm text-foreground">{item.label}</span>
+                  <div className="w-3 h-3 rounded" style={{ backgroundColor: item.level.color }} />
+                  <span className="text-sm text-foreground">{item.level.emoji} {item.level.label}</span>
                 </div>
                 
                 <div className="flex-1">
@@ -220,36 +231,43 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         </div>
       </Card>
 
+      <AgreementMetrics
+        content={originalResponse}
+        annotations={annotations}
+        annotators={annotators}
+        scale={scale}
+      />
+
       {/* Insights */}
       <Card className="p-6">
         <h3 className="text-lg font-semibold text-foreground mb-4">Key Insights</h3>
         
         <div className="space-y-3">
-          {breakdown.high.count > breakdown.low.count && (
+          {breakdown.positive > breakdown.noise && (
             <div className="flex items-start gap-3 p-3 bg-annotation-high/10 rounded-lg">
               <CheckCircle className="w-4 h-4 text-annotation-high mt-0.5" />
               <div>
                 <p className="text-sm font-medium text-foreground">High-Value Content Identified</p>
                 <p className="text-xs text-muted-foreground">
-                  You've marked more content as highly relevant than low relevance, indicating good signal-to-noise ratio.
+                  You've marked more content as relevant than as noise, indicating good signal-to-noise ratio.
                 </p>
               </div>
             </div>
           )}
           
-          {breakdown.low.count > breakdown.total * 0.3 && (
+          {breakdown.noise > breakdown.total * 0.3 && (
             <div className="flex items-start gap-3 p-3 bg-annotation-low/10 rounded-lg">
               <TrendingDown className="w-4 h-4 text-annotation-low mt-0.5" />
               <div>
                 <p className="text-sm font-medium text-foreground">Significant Noise Detected</p>
                 <p className="text-xs text-muted-foreground">
-                  Over 30% of content marked as low relevance. Refined prompt should significantly improve output quality.
+                  Over 30% of annotations are on negatively weighted levels. Refined prompt should significantly improve output quality.
                 </p>
               </div>
             </div>
           )}
           
-          {breakdown.total < 5 && (
+          {annotations.length < 5 && (
             <div className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
               <Target className="w-4 h-4 text-muted-foreground mt-0.5" />
               <div>
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Copy, Trash2 } from 'lucide-react';
+import { confidenceOf, formatConfidence } from '@/lib/confidence';
+import { ISSUE_CATEGORIES, toggleIssue } from '@/lib/issue-categories';
+import { isNeutralLevel, withAlpha, type RelevanceScale } from '@/lib/relevance-scale';
+import type { Annotation } from './AnnotationInterface';
+
+interface AnnotationEditMenuProps {
+  annotation: Annotation;
+  scale: RelevanceScale;
+  onChange: (annotation: Annotation) => void;
+  onCopy: (annotation: Annotation) => void;
+  onDelete: (annotation: Annotation) => void;
+}
+
+// Actions for an existing highlighted span; the parent keys it by annotation id so the
+// comment draft starts over for each annotation
+const AnnotationEditMenu: React.FC<AnnotationEditMenuProps> = ({
+  annotation,
+  scale,
+  onChange,
+  onCopy,
+  onDelete
+}) => {
+  const [comment, setComment] = useState(annotation.comment ?? '');
+  // Follows the slider while dragging; the annotation changes once on release
+  const [confidence, setConfidence] = useState(confidenceOf(annotation));
+
+  const saveComment = () => {
+    const trimmed = comment.trim() || undefined;
+    if (trimmed !== annotation.comment) onChange({ ...annotation, comment: trimmed });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs font-medium text-foreground line-clamp-2">"{annotation.text}"</p>
+
+      {/* Neutral levels erase rather than annotate, so they are not offered here */}
+      <div className="flex flex-wrap gap-1">
+        {scale.levels.filter(level => !isNeutralLevel(level)).map(level => {
+          const isCurrent = annotation.relevanceLevel === level.id;
+          return (
+            <Button
+              key={level.id}
+              variant="outline"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              style={isCurrent
+                ? { backgroundColor: withAlpha(level.color, 0.22), borderColor: level.color }
+                : { borderColor: withAlpha(level.color, 0.4) }}
+              onClick={() => !isCurrent && onChange({ ...annotation, relevanceLevel: level.id })}
+            >
+              <span className="mr-1">{level.emoji}</span>
+              {level.label}
+            </Button>
+          );
+        })}
+      </div>
+
+      <Input
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        onBlur={saveComment}
+        placeholder="Comment"
+        className="text-xs h-8"
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            saveComment();
+          }
+        }}
+      />
+
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground">Confidence</span>
+        <Slider
+          value={[confidence]}
+          onValueChange={([value]) => setConfidence(value)}
+          onValueCommit={([value]) => value !== confidenceOf(annotation) && onChange({ ...annotation, confidence: value })}
+          min={0}
+          max={1}
+          step={0.05}
+          className="flex-1"
+        />
+        <span className="text-xs font-medium w-9 text-right">{formatConfidence(confidence)}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {ISSUE_CATEGORIES.map(category => {
+          const isSelected = annotation.issues?.includes(category.id) ?? false;
+          return (
+            <Badge
+              key={category.id}
+              variant={isSelected ? 'default' : 'outline'}
+              className="text-[10px] h-5 px-1.5 cursor-pointer select-none"
+              onClick={() => {
+                const issues = toggleIssue(annotation.issues, category.id);
+                onChange({ ...annotation, issues: issues.length > 0 ? issues : undefined });
+              }}
+            >
+              {category.emoji} {category.label}
+            </Badge>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between border-t pt-3">
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onCopy(annotation)}>
+          <Copy className="w-3 h-3 mr-1" />
+          Copy excerpt
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs text-destructive hover:text-destructive"
+          onClick={() => onDelete(annotation)}
+        >
+          <Trash2 className="w-3 h-3 mr-1" />
+          Delete
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationEditMenu;
@@ -1,28 +1,118 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useLayoutEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Palette, RotateCcw, Sparkles, MessageSquare, Copy, Clipboard, Edit3, Eye } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Palette, RotateCcw, Sparkles, MessageSquare, Copy, Clipboard, Edit3, Eye, Unlink } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import type { HistoryControls as HistoryControlsState } from '@/hooks/use-history';
+import { captureAnchor } from '@/lib/anchoring';
+import { annotatorIdOf, resolveAnnotator, UNASSIGNED_ANNOTATOR, type Annotator } from '@/lib/annotators';
+import { confidenceOf, describeConfidence, formatConfidence, FULL_CONFIDENCE } from '@/lib/confidence';
+import { applyOverlapPolicy, coverageByLevel, eraseRange, normalizeAnnotations, OVERLAP_POLICIES, type OverlapPolicy } from '@/lib/annotation-overlap';
+import { getIssueCategory, ISSUE_CATEGORIES, toggleIssue } from '@/lib/issue-categories';
+import { SNAP_GRANULARITIES, snapRange, type SnapGranularity } from '@/lib/selection-snap';
+import { getTopLevel, isNeutralLevel, levelsByWeight, resolveLevel, withAlpha, type RelevanceScale } from '@/lib/relevance-scale';
+import AnnotationEditMenu from './AnnotationEditMenu';
+import AnnotationThreadPanel from './AnnotationThreadPanel';
+import HistoryControls from './HistoryControls';
+
+// A reply in an annotation's discussion thread
+export interface AnnotationComment {
+  id: string;
+  author: string;
+  // Annotator who wrote the reply; unset for replies from before replies were tied to annotators
+  authorId?: string;
+  body: string;
+  createdAt: number;
+  editedAt?: number;
+}
 
 export interface Annotation {
   id: string;
   startIndex: number;
   endIndex: number;
-  relevanceLevel: 'high' | 'medium' | 'neutral' | 'low';
+  // Id of a level in the session's relevance scale
+  relevanceLevel: string;
   text: string;
   comment?: string;
+  // Issue category ids (see ISSUE_CATEGORIES), independent of the relevance level
+  issues?: string[];
+  // Discussion following the comment, oldest first
+  thread?: AnnotationComment[];
+  resolved?: boolean;
+  // Text just before and after the quote, used to re-anchor the annotation after edits
+  prefix?: string;
+  suffix?: string;
+  // Set when an edit removed the quoted text and it could not be found again
+  orphaned?: boolean;
+  // Who made the annotation; unset for annotations made before annotators were tracked
+  annotatorId?: string;
+  // 0–1, see confidenceOf; unset counts as fully confident
+  confidence?: number;
+}
+
+// Asks the interface to scroll to and briefly highlight an annotation; each new request re-triggers it
+export interface AnnotationFocusRequest {
+  annotationId: string;
+  requestedAt: number;
+}
+
+const FOCUS_HIGHLIGHT_MS = 2500;
+
+// The highlighted span whose edit menu is open; layered spans can hold several annotations
+interface EditTarget {
+  annotationIds: string[];
+  activeId: string;
+  x: number;
+  y: number;
+}
+
+// Live range of an annotation while one of its drag handles is held
+interface ResizeDraft {
+  annotationId: string;
+  edge: 'start' | 'end';
+  start: number;
+  end: number;
+}
+
+interface HandlePosition {
+  x: number;
+  y: number;
+  height: number;
 }
 
+const caretFromPoint = (x: number, y: number): { node: Node; offset: number } | null => {
+  if (document.caretPositionFromPoint) {
+    const position = document.caretPositionFromPoint(x, y);
+    return position && { node: position.offsetNode, offset: position.offset };
+  }
+  const range = document.caretRangeFromPoint?.(x, y);
+  return range ? { node: range.startContainer, offset: range.startOffset } : null;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
 interface AnnotationInterfaceProps {
   content: string;
   onContentChange: (content: string) => void;
   onAnnotationsChange: (annotations: Annotation[]) => void;
   onRefinePrompt: () => void;
   annotations: Annotation[];
+  scale: RelevanceScale;
+  history?: HistoryControlsState;
+  // Review mode: no editing, no new annotations, no deletions
+  readOnly?: boolean;
+  focusRequest?: AnnotationFocusRequest;
+  // Who new annotations belong to; selection, erasing and Clear only affect this annotator's layer
+  annotatorId?: string;
+  annotators?: Annotator[];
+  hiddenAnnotatorIds?: string[];
 }
 
 const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
@@ -30,30 +120,70 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
   onContentChange,
   onAnnotationsChange,
   onRefinePrompt,
-  annotations
+  annotations,
+  scale,
+  history,
+  readOnly = false,
+  focusRequest,
+  annotatorId = UNASSIGNED_ANNOTATOR.id,
+  annotators = [],
+  hiddenAnnotatorIds = []
 }) => {
   // Store the original plain text content separately from the annotated display
   const [plainTextContent, setPlainTextContent] = useState(content);
-  const [selectedRelevance, setSelectedRelevance] = useState<'high' | 'medium' | 'neutral' | 'low'>('high');
+  const [selectedRelevance, setSelectedRelevance] = useState<string>(() => getTopLevel(scale).id);
   const [showCommentInput, setShowCommentInput] = useState(false);
   const [pendingAnnotation, setPendingAnnotation] = useState<Omit<Annotation, 'comment'> | null>(null);
   const [commentText, setCommentText] = useState('');
+  const [pendingIssues, setPendingIssues] = useState<string[]>([]);
+  const [overlapPolicy, setOverlapPolicy] = useState<OverlapPolicy>('split');
+  const [granularity, setGranularity] = useState<SnapGranularity>('word');
+  // Confidence given to new annotations
+  const [confidence, setConfidence] = useState(FULL_CONFIDENCE);
+  const [threadAnnotationId, setThreadAnnotationId] = useState<string | null>(null);
   const [commentPosition, setCommentPosition] = useState({ x: 0, y: 0 });
+  const [highlightedAnnotationId, setHighlightedAnnotationId] = useState<string | null>(null);
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null);
+  const [resizeDraft, setResizeDraft] = useState<ResizeDraft | null>(null);
+  const [handlePositions, setHandlePositions] = useState<{ start: HandlePosition; end: HandlePosition } | null>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const commentInputRef = useRef<HTMLDivElement>(null);
+  // Caret offset captured before an edit re-renders the content, restored afterwards
+  const pendingCaretRef = useRef<number | null>(null);
   const { toast } = useToast();
 
+  const visibleAnnotations = annotations.filter(a => !hiddenAnnotatorIds.includes(annotatorIdOf(a)));
+  // Annotator colours are only worth showing once more than one person's marks are visible
+  const showAnnotators = new Set(visibleAnnotations.map(annotatorIdOf)).size > 1;
+  // Clearing only removes these
+  const hasOwnAnnotations = annotations.some(a => annotatorIdOf(a) === annotatorId);
+
   // Update plain text when content changes
   useEffect(() => {
     setPlainTextContent(content);
   }, [content]);
 
-  const relevanceLevels = [
-    { key: 'high', label: 'High', color: 'high', description: 'Most relevant', emoji: '🔥' },
-    { key: 'medium', label: 'Medium', color: 'medium', description: 'Somewhat relevant', emoji: '⚡' },
-    { key: 'low', label: 'Low', color: 'low', description: 'Least relevant', emoji: '❄️' },
-    { key: 'neutral', label: 'Neutral/Deselect', color: 'neutral', description: 'Neutral or Deselect', emoji: '⚪' }
-  ] as const;
+  useEffect(() => {
+    if (!focusRequest) return;
+    setHighlightedAnnotationId(focusRequest.annotationId);
+    const timer = setTimeout(() => setHighlightedAnnotationId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [focusRequest]);
+
+  useEffect(() => {
+    if (!highlightedAnnotationId) return;
+    contentRef.current
+      ?.querySelector(`[data-annotation-ids~="${CSS.escape(highlightedAnnotationId)}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedAnnotationId]);
+
+  // The selected level can disappear when the scale is edited
+  useEffect(() => {
+    if (!scale.levels.some(level => level.id === selectedRelevance)) {
+      setSelectedRelevance(getTopLevel(scale).id);
+    }
+  }, [scale, selectedRelevance]);
 
   // Helper function to convert DOM position to plain text position
   const getTextPosition = useCallback((node: Node, offset: number): number => {
@@ -78,19 +208,60 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
     return textPosition;
   }, []);
 
+  // Inverse of getTextPosition: find the text node and offset for a plain text position
+  const getDomPosition = useCallback((position: number): { node: Node; offset: number } | null => {
+    if (!contentRef.current) return null;
+
+    const walker = document.createTreeWalker(contentRef.current, NodeFilter.SHOW_TEXT, null);
+    let remaining = position;
+    let lastNode: Node | null = null;
+    let currentNode = walker.nextNode();
+    while (currentNode) {
+      const length = currentNode.textContent?.length || 0;
+      if (remaining <= length) return { node: currentNode, offset: remaining };
+      remaining -= length;
+      lastNode = currentNode;
+      currentNode = walker.nextNode();
+    }
+
+    return lastNode ? { node: lastNode, offset: lastNode.textContent?.length || 0 } : null;
+  }, []);
+
+  useLayoutEffect(() => {
+    if (pendingCaretRef.current === null || plainTextContent !== content) return;
+
+    const position = getDomPosition(pendingCaretRef.current);
+    pendingCaretRef.current = null;
+    const selection = window.getSelection();
+    if (!position || !selection) return;
+
+    const range = document.createRange();
+    range.setStart(position.node, position.offset);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }, [plainTextContent, content, annotations, getDomPosition]);
+
   // Helper function to handle annotation creation with validated indices
   const handleAnnotationWithIndices = useCallback((startIndex: number, endIndex: number, selectedText: string, rect: DOMRect, containerRect: DOMRect) => {
     const selection = window.getSelection();
     
-    // Handle neutral/deselect functionality
-    if (selectedRelevance === 'neutral') {
-      // Remove any existing annotations in this range
-      const updatedAnnotations = annotations.filter(annotation => {
-        return !(annotation.startIndex <= startIndex && annotation.endIndex >= endIndex) &&
-               !(startIndex <= annotation.startIndex && endIndex >= annotation.endIndex) &&
-               !(startIndex < annotation.endIndex && endIndex > annotation.startIndex);
-      });
-      onAnnotationsChange(updatedAnnotations);
+    // Neutral erases the selected characters, trimming or splitting the annotations it crosses
+    if (isNeutralLevel(resolveLevel(scale, selectedRelevance))) {
+      const erased = eraseRange(annotations, startIndex, endIndex, plainTextContent, annotatorId);
+      const changes = [
+        erased.trimmed && `${erased.trimmed} trimmed`,
+        erased.split && `${erased.split} split`,
+        erased.removed && `${erased.removed} removed`
+      ].filter(Boolean);
+      if (changes.length > 0) {
+        onAnnotationsChange(erased.annotations);
+        toast({
+          title: "Selection cleared",
+          description: `Annotations ${changes.join(', ')}`,
+          duration: 2000,
+        });
+      }
       
       // Clear selection
       if (selection) selection.removeAllRanges();
@@ -103,7 +274,10 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
       startIndex,
       endIndex,
       relevanceLevel: selectedRelevance,
-      text: selectedText
+      ...captureAnchor(plainTextContent, startIndex, endIndex),
+      text: selectedText,
+      annotatorId,
+      confidence
     };
 
     // Auto-add annotation without comment first
@@ -111,11 +285,11 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
       ...newAnnotation
     };
 
-    const updatedAnnotations = [...annotations, finalAnnotation];
+    const updatedAnnotations = applyOverlapPolicy(annotations, finalAnnotation, overlapPolicy, plainTextContent);
     onAnnotationsChange(updatedAnnotations);
 
-    // Show comment input for optional comment
-    setPendingAnnotation(finalAnnotation);
+    // Show comment input for optional comment (merging may have widened the new annotation)
+    setPendingAnnotation(updatedAnnotations.find(a => a.id === finalAnnotation.id) ?? finalAnnotation);
     setCommentPosition({
       x: rect.left - containerRect.left + rect.width / 2,
       y: rect.bottom - containerRect.top + 10
@@ -124,38 +298,199 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
 
     // Clear selection
     if (selection) selection.removeAllRanges();
-  }, [annotations, selectedRelevance, onAnnotationsChange]);
+  }, [annotations, selectedRelevance, scale, overlapPolicy, plainTextContent, annotatorId, confidence, onAnnotationsChange, toast]);
+
+  const handleAnnotationUpdate = (updated: Annotation) => {
+    onAnnotationsChange(annotations.map(a => (a.id === updated.id ? updated : a)));
+  };
 
-  const handleTextSelection = useCallback(() => {
+  const deleteAnnotation = (annotation: Annotation) => {
+    onAnnotationsChange(annotations.filter(a => a.id !== annotation.id));
+  };
+
+  const copyExcerpt = async (annotation: Annotation) => {
+    try {
+      await navigator.clipboard.writeText(annotation.text);
+      toast({
+        title: "Copied!",
+        description: "Excerpt copied to clipboard",
+      });
+    } catch (err) {
+      toast({
+        title: "Copy failed",
+        description: "Could not copy to clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Switching policies re-applies the new one to the existing annotations, oldest first
+  const handleOverlapPolicyChange = (policy: OverlapPolicy) => {
+    setOverlapPolicy(policy);
+    const normalized = normalizeAnnotations(annotations, policy, plainTextContent);
+    if (JSON.stringify(normalized) !== JSON.stringify(annotations)) {
+      onAnnotationsChange(normalized);
+    }
+  };
+
+  // Holding Alt/Option keeps the exact selection instead of snapping it
+  const handleTextSelection = useCallback((event: React.MouseEvent) => {
     const selection = window.getSelection();
     if (!selection || selection.rangeCount === 0) return;
 
     const range = selection.getRangeAt(0);
-    const selectedText = range.toString().trim();
+    const rawText = range.toString();
     
-    if (!selectedText || !contentRef.current) return;
+    if (!rawText.trim() || !contentRef.current) return;
 
     // Get selection position for comment input
     const rect = range.getBoundingClientRect();
     const containerRect = contentRef.current.getBoundingClientRect();
     
     // Calculate text indices using proper DOM-to-text mapping
-    const startIndex = getTextPosition(range.startContainer, range.startOffset);
-    const endIndex = getTextPosition(range.endContainer, range.endOffset);
+    let startIndex = getTextPosition(range.startContainer, range.startOffset);
+    let endIndex = getTextPosition(range.endContainer, range.endOffset);
     
     // Validate that the selected text matches what we expect from plain text
-    const actualSelectedText = plainTextContent.slice(startIndex, endIndex);
-    if (actualSelectedText !== selectedText) {
+    if (plainTextContent.slice(startIndex, endIndex) !== rawText) {
       console.warn('Text selection mismatch, falling back to search');
       // Fallback: find the selected text in plain text content
-      const fallbackStart = plainTextContent.indexOf(selectedText);
-      if (fallbackStart === -1) return;
-      const fallbackEnd = fallbackStart + selectedText.length;
-      return handleAnnotationWithIndices(fallbackStart, fallbackEnd, selectedText, rect, containerRect);
+      startIndex = plainTextContent.indexOf(rawText);
+      if (startIndex === -1) return;
+      endIndex = startIndex + rawText.length;
+    }
+
+    const snapped = event.altKey
+      ? { start: startIndex, end: endIndex }
+      : snapRange(plainTextContent, { start: startIndex, end: endIndex }, granularity);
+    if (!snapped) return;
+
+    const selectedText = plainTextContent.slice(snapped.start, snapped.end);
+    return handleAnnotationWithIndices(snapped.start, snapped.end, selectedText, rect, containerRect);
+  }, [plainTextContent, granularity, getTextPosition, handleAnnotationWithIndices]);
+
+  const editedAnnotation = editTarget
+    ? annotations.find(a => a.id === editTarget.activeId && !a.orphaned) ?? null
+    : null;
+
+  // Opens the edit menu for the highlighted span under the pointer, if any.
+  // In review mode the span only selects its discussion.
+  const openEditMenu = (target: EventTarget): boolean => {
+    const span = (target as HTMLElement).closest?.('[data-annotation-ids]');
+    if (!span || !wrapperRef.current) return false;
+    const annotationIds = (span.getAttribute('data-annotation-ids') ?? '').split(' ').filter(Boolean);
+    if (annotationIds.length === 0) return false;
+
+    // The newest annotation of a layered span is edited first
+    const activeId = annotationIds[annotationIds.length - 1];
+    setThreadAnnotationId(activeId);
+    if (readOnly) return true;
+
+    const rect = span.getBoundingClientRect();
+    const wrapperRect = wrapperRef.current.getBoundingClientRect();
+    setEditTarget({
+      annotationIds,
+      activeId,
+      x: rect.left - wrapperRect.left + rect.width / 2,
+      y: rect.bottom - wrapperRect.top
+    });
+    return true;
+  };
+
+  // Dragging across text annotates it; a plain click on a highlight edits it
+  const handleContentMouseUp = (event: React.MouseEvent) => {
+    if (event.button !== 0) return;
+    const selection = window.getSelection();
+    if (selection && !selection.isCollapsed) {
+      if (!readOnly) handleTextSelection(event);
+      return;
     }
+    openEditMenu(event.target);
+  };
 
-    return handleAnnotationWithIndices(startIndex, endIndex, selectedText, rect, containerRect);
-  }, [plainTextContent, getTextPosition, handleAnnotationWithIndices]);
+  const handleContentContextMenu = (event: React.MouseEvent) => {
+    if (readOnly) return;
+    if (openEditMenu(event.target)) event.preventDefault();
+  };
+
+  const startResize = (edge: ResizeDraft['edge'], event: React.PointerEvent) => {
+    if (!editedAnnotation) return;
+    event.preventDefault();
+    setResizeDraft({
+      annotationId: editedAnnotation.id,
+      edge,
+      start: editedAnnotation.startIndex,
+      end: editedAnnotation.endIndex
+    });
+  };
+
+  // Handles follow the pointer over the text; the new range snaps like a selection on release
+  useEffect(() => {
+    if (!resizeDraft) return;
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const caret = caretFromPoint(event.clientX, event.clientY);
+      if (!caret || !contentRef.current?.contains(caret.node)) return;
+      const position = getTextPosition(caret.node, caret.offset);
+      setResizeDraft(draft => draft && (draft.edge === 'start'
+        ? { ...draft, start: Math.min(position, draft.end - 1) }
+        : { ...draft, end: Math.max(position, draft.start + 1) }));
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      setResizeDraft(null);
+      const annotation = annotations.find(a => a.id === resizeDraft.annotationId);
+      if (!annotation) return;
+      const range = event.altKey ? resizeDraft : snapRange(plainTextContent, resizeDraft, granularity);
+      if (!range || (range.start === annotation.startIndex && range.end === annotation.endIndex)) return;
+
+      const resized: Annotation = {
+        ...annotation,
+        startIndex: range.start,
+        endIndex: range.end,
+        ...captureAnchor(plainTextContent, range.start, range.end),
+        text: plainTextContent.slice(range.start, range.end)
+      };
+      onAnnotationsChange(
+        applyOverlapPolicy(annotations.filter(a => a.id !== annotation.id), resized, overlapPolicy, plainTextContent)
+      );
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [resizeDraft, annotations, plainTextContent, granularity, overlapPolicy, getTextPosition, onAnnotationsChange]);
+
+  // Place the drag handles at the first and last line box of the edited span
+  useLayoutEffect(() => {
+    const range = resizeDraft ?? (editedAnnotation && { start: editedAnnotation.startIndex, end: editedAnnotation.endIndex });
+    const start = range && getDomPosition(range.start);
+    const end = range && getDomPosition(range.end);
+    if (readOnly || !start || !end || !wrapperRef.current) {
+      setHandlePositions(null);
+      return;
+    }
+
+    const domRange = document.createRange();
+    domRange.setStart(start.node, start.offset);
+    domRange.setEnd(end.node, end.offset);
+    const rects = Array.from(domRange.getClientRects()).filter(rect => rect.width > 0);
+    if (rects.length === 0) {
+      setHandlePositions(null);
+      return;
+    }
+
+    const wrapperRect = wrapperRef.current.getBoundingClientRect();
+    const first = rects[0];
+    const last = rects[rects.length - 1];
+    setHandlePositions({
+      start: { x: first.left - wrapperRect.left, y: first.top - wrapperRect.top, height: first.height },
+      end: { x: last.right - wrapperRect.left, y: last.top - wrapperRect.top, height: last.height }
+    });
+  }, [editedAnnotation, resizeDraft, annotations, plainTextContent, readOnly, getDomPosition]);
 
   // Handle click outside to close comment input
   useEffect(() => {
@@ -165,6 +500,7 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
           setShowCommentInput(false);
           setPendingAnnotation(null);
           setCommentText('');
+          setPendingIssues([]);
         }
       }
     };
@@ -178,10 +514,10 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
   const handleCommentSubmit = () => {
     if (!pendingAnnotation) return;
 
-    // Update existing annotation with comment
+    // Update existing annotation with comment and issue categories
     const updatedAnnotations = annotations.map(ann => 
       ann.id === pendingAnnotation.id 
-        ? { ...ann, comment: commentText.trim() || undefined }
+        ? { ...ann, comment: commentText.trim() || undefined, issues: pendingIssues.length > 0 ? pendingIssues : undefined }
         : ann
     );
     onAnnotationsChange(updatedAnnotations);
@@ -190,21 +526,29 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
     setShowCommentInput(false);
     setPendingAnnotation(null);
     setCommentText('');
+    setPendingIssues([]);
   };
 
   const handleCommentCancel = () => {
     setShowCommentInput(false);
     setPendingAnnotation(null);
     setCommentText('');
+    setPendingIssues([]);
   };
 
   const handleContentChange = (e: React.FormEvent<HTMLDivElement>) => {
+    const selection = window.getSelection();
+    if (selection && selection.anchorNode && e.currentTarget.contains(selection.anchorNode)) {
+      pendingCaretRef.current = getTextPosition(selection.anchorNode, selection.anchorOffset);
+    }
+    setEditTarget(null);
     const newContent = e.currentTarget.textContent || '';
     onContentChange(newContent);
   };
 
+  // Other annotators' layers are left alone
   const clearAnnotations = () => {
-    onAnnotationsChange([]);
+    onAnnotationsChange(annotations.filter(a => annotatorIdOf(a) !== annotatorId));
   };
 
   const copyContent = async () => {
@@ -224,24 +568,24 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
   };
 
   const renderAnnotatedContent = () => {
-    if (annotations.length === 0) {
-      return plainTextContent;
+    // A span being resized is drawn at its live range
+    const displayedAnnotations = resizeDraft
+      ? visibleAnnotations.map(a => (a.id === resizeDraft.annotationId ? { ...a, startIndex: resizeDraft.start, endIndex: resizeDraft.end } : a))
+      : visibleAnnotations;
+    const anchoredAnnotations = displayedAnnotations.filter(annotation => !annotation.orphaned);
+    if (anchoredAnnotations.length === 0) {
+      return escapeHtml(plainTextContent);
     }
 
     // Create a map of character positions to annotations based on plain text
     const charMap: { [key: number]: Annotation[] } = {};
-    annotations.forEach(annotation => {
+    anchoredAnnotations.forEach(annotation => {
       for (let i = annotation.startIndex; i < annotation.endIndex; i++) {
         if (!charMap[i]) charMap[i] = [];
         charMap[i].push(annotation);
       }
     });
 
-    const result = [];
-    let currentAnnotations: Annotation[] = [];
-    let currentText = '';
-    let currentStart = 0;
-
     const arraysEqual = (a: Annotation[], b: Annotation[]): boolean => {
       if (a.length !== b.length) return false;
       const aIds = a.map(ann => ann.id).sort();
@@ -249,49 +593,62 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
       return aIds.every((id, index) => id === bIds[index]);
     };
 
+    // The span must wrap the text with no extra whitespace so the DOM text stays identical to the content
+    const renderSegment = (text: string, segmentAnnotations: Annotation[]): string => {
+      if (segmentAnnotations.length === 0) return escapeHtml(text);
+
+      // The annotation with the heaviest level decides how the segment is drawn
+      const primaryAnnotation = segmentAnnotations.reduce((prev, curr) =>
+        resolveLevel(scale, curr.relevanceLevel).weight > resolveLevel(scale, prev.relevanceLevel).weight ? curr : prev
+      );
+      const primaryLevel = resolveLevel(scale, primaryAnnotation.relevanceLevel);
+      const describe = (a: Annotation) => {
+        const sureness = confidenceOf(a) < FULL_CONFIDENCE ? ` (${describeConfidence(confidenceOf(a))})` : '';
+        const label = (a.comment || resolveLevel(scale, a.relevanceLevel).label) + sureness;
+        return showAnnotators ? `${resolveAnnotator(annotators, annotatorIdOf(a)).name}: ${label}` : label;
+      };
+      const title = segmentAnnotations.map(describe).join(' / ');
+      // The primary annotation's annotator marks the right edge of the span
+      const annotatorColor = showAnnotators ? resolveAnnotator(annotators, annotatorIdOf(primaryAnnotation)).color : null;
+      const isHighlighted = segmentAnnotations.some(a => a.id === highlightedAnnotationId);
+      // Layered annotations below the primary one show as stacked underlines
+      const layers = segmentAnnotations
+        .filter(a => a !== primaryAnnotation)
+        .map((a, index) => `inset 0 -${(index + 1) * 3}px 0 ${resolveLevel(scale, a.relevanceLevel).color}`);
+
+      return `<span
+        class="
+          px-1.5 py-0.5 mx-0.5 rounded-sm cursor-pointer
+          text-foreground font-medium
+          transition-all duration-200 ease-out
+          hover:scale-[1.01]
+          relative
+          ${isHighlighted ? 'ring-2 ring-primary ring-offset-1' : ''}
+        "
+        style="
+          background-color: ${withAlpha(primaryLevel.color, 0.08 + 0.14 * confidenceOf(primaryAnnotation))};
+          border-left: 3px solid ${primaryLevel.color};
+          ${annotatorColor ? `border-right: 3px solid ${annotatorColor};` : ''}
+          ${layers.length > 0 ? `box-shadow: ${layers.join(', ')};` : ''}
+        "
+        title="${escapeHtml(title)}"
+        data-annotation-ids="${escapeHtml(segmentAnnotations.map(a => a.id).join(' '))}"
+      >${escapeHtml(text)}</span>`;
+    };
+
+    const result: string[] = [];
+    let currentAnnotations: Annotation[] = [];
+    let currentText = '';
+
     for (let i = 0; i < plainTextContent.length; i++) {
       const charAnnotations = charMap[i] || [];
-      
-      // Check if annotations changed
-      const annotationsChanged = !arraysEqual(currentAnnotations, charAnnotations);
-      
-      if (annotationsChanged) {
-        // Push current segment if it has content
+
+      if (!arraysEqual(currentAnnotations, charAnnotations)) {
         if (currentText) {
-          if (currentAnnotations.length > 0) {
-            // Find the highest priority annotation
-            const primaryAnnotation = currentAnnotations.reduce((prev, curr) => {
-              const priority = { high: 4, medium: 3, neutral: 2, low: 1 };
-              return priority[curr.relevanceLevel] > priority[prev.relevanceLevel] ? curr : prev;
-            });
-            
-            result.push(
-              `<span
-                class="
-                  px-1.5 py-0.5 mx-0.5 rounded-sm cursor-pointer
-                  text-foreground font-medium
-                  transition-all duration-200 ease-out
-                  hover:scale-[1.01]
-                  relative
-                "
-                style="
-                  background-color: hsl(var(--annotation-${primaryAnnotation.relevanceLevel}-bg));
-                  border-left: 3px solid hsl(var(--annotation-${primaryAnnotation.relevanceLevel}));
-                "
-                title="${primaryAnnotation.comment || relevanceLevels.find(l => l.key === primaryAnnotation.relevanceLevel)?.description}"
-              >
-                ${currentText}
-              </span>`
-            );
-          } else {
-            result.push(currentText);
-          }
+          result.push(renderSegment(currentText, currentAnnotations));
         }
-        
-        // Reset for new segment
         currentAnnotations = charAnnotations;
         currentText = plainTextContent[i];
-        currentStart = i;
       } else {
         currentText += plainTextContent[i];
       }
@@ -299,33 +656,7 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
 
     // Handle final segment
     if (currentText) {
-      if (currentAnnotations.length > 0) {
-        const primaryAnnotation = currentAnnotations.reduce((prev, curr) => {
-          const priority = { high: 4, medium: 3, neutral: 2, low: 1 };
-          return priority[curr.relevanceLevel] > priority[prev.relevanceLevel] ? curr : prev;
-        });
-        
-        result.push(
-          `<span
-            class="
-              px-1.5 py-0.5 mx-0.5 rounded-sm cursor-pointer
-              text-foreground font-medium
-              transition-all duration-200 ease-out
-              hover:scale-[1.01]
-              relative
-            "
-            style="
-              background-color: hsl(var(--annotation-${primaryAnnotation.relevanceLevel}-bg));
-              border-left: 3px solid hsl(var(--annotation-${primaryAnnotation.relevanceLevel}));
-            "
-            title="${primaryAnnotation.comment || relevanceLevels.find(l => l.key === primaryAnnotation.relevanceLevel)?.description}"
-          >
-            ${currentText}
-          </span>`
-        );
-      } else {
-        result.push(currentText);
-      }
+      result.push(renderSegment(currentText, currentAnnotations));
     }
 
     return result.join('');
@@ -334,48 +665,91 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
   return (
     <div className="space-y-6">
       {/* Annotation Controls */}
-      <div className="flex flex-wrap items-center gap-4 p-5 bg-card rounded-xl border shadow-sm">
-        <div className="flex items-center gap-3">
-          <div className="w-6 h-6 rounded-full bg-gradient-to-r from-annotation-high to-annotation-low flex items-center justify-center">
-            <Palette className="w-3 h-3 text-white" />
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-4 p-5 bg-card rounded-xl border shadow-sm">
+          <div className="flex items-center gap-3">
+            <div className="w-6 h-6 rounded-full bg-gradient-to-r from-annotation-high to-annotation-low flex items-center justify-center">
+              <Palette className="w-3 h-3 text-white" />
+            </div>
+            <span className="text-sm font-semibold text-foreground">Choose Relevance:</span>
           </div>
-          <span className="text-sm font-semibold text-foreground">Choose Relevance:</span>
-        </div>
-        
-        <div className="flex gap-2">
-          {relevanceLevels.map((level) => (
+          
+          <div className="flex flex-wrap gap-2">
+            {scale.levels.map((level) => (
+              <Button
+                key={level.id}
+                variant={selectedRelevance === level.id ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSelectedRelevance(level.id)}
+                title={isNeutralLevel(level) ? 'Clears annotations in the selection' : undefined}
+                className={`
+                  h-9 text-xs font-medium transition-all duration-200 
+                  ${selectedRelevance === level.id 
+                    ? 'bg-primary text-primary-foreground border-primary shadow-lg shadow-primary/25' 
+                    : ''
+                  }
+                `}
+                style={selectedRelevance === level.id ? undefined : { borderColor: withAlpha(level.color, 0.4) }}
+              >
+                <span className="mr-1.5">{level.emoji}</span>
+                {level.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2" title="How sure you are of new annotations">
+            <span className="text-xs text-muted-foreground">Confidence</span>
+            <Slider
+              value={[confidence]}
+              onValueChange={([value]) => setConfidence(value)}
+              min={0}
+              max={1}
+              step={0.05}
+              className="w-24"
+            />
+            <span className="text-xs font-medium w-9">{formatConfidence(confidence)}</span>
+          </div>
+
+          <div className="flex gap-2 ml-auto">
+            <Select value={granularity} onValueChange={(value) => setGranularity(value as SnapGranularity)}>
+              <SelectTrigger className="h-8 w-32 text-xs" title="Selections snap to these boundaries (hold Alt to keep the exact selection)">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SNAP_GRANULARITIES.map(option => (
+                  <SelectItem key={option.id} value={option.id} className="text-xs">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={overlapPolicy} onValueChange={(value) => handleOverlapPolicyChange(value as OverlapPolicy)}>
+              <SelectTrigger className="h-8 w-44 text-xs" title="How overlapping annotations are resolved">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OVERLAP_POLICIES.map(policy => (
+                  <SelectItem key={policy.id} value={policy.id} className="text-xs">
+                    <span className="font-medium">{policy.label}</span>
+                    <span className="block text-muted-foreground">{policy.description}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {history && <HistoryControls history={history} />}
             <Button
-              key={level.key}
-              variant={selectedRelevance === level.key ? "default" : "outline"}
+              variant="outline"
               size="sm"
-              onClick={() => setSelectedRelevance(level.key as any)}
-              className={`
-                h-9 text-xs font-medium transition-all duration-200 
-                ${selectedRelevance === level.key 
-                  ? 'bg-primary text-primary-foreground border-primary shadow-lg shadow-primary/25' 
-                  : `border-annotation-${level.color}/30 hover:bg-annotation-${level.color}-bg hover:border-annotation-${level.color}/50`
-                }
-              `}
+              onClick={clearAnnotations}
+              className="h-8"
+              disabled={!hasOwnAnnotations}
             >
-              <span className="mr-1.5">{level.emoji}</span>
-              {level.label}
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Clear
             </Button>
-          ))}
-        </div>
-
-        <div className="flex gap-2 ml-auto">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={clearAnnotations}
-            className="h-8"
-            disabled={annotations.length === 0}
-          >
-            <RotateCcw className="w-3 h-3 mr-1" />
-            Clear
-          </Button>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Content Area */}
       <Card className="p-6">
@@ -384,7 +758,9 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
             <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
               <Edit3 className="w-4 h-4" />
               AI Response
-              <span className="text-xs text-muted-foreground font-normal">(Click to edit)</span>
+              {!readOnly && (
+                <span className="text-xs text-muted-foreground font-normal">(Click to edit)</span>
+              )}
             </h3>
             <div className="flex gap-2">
               <Button
@@ -409,20 +785,90 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
             </div>
           </div>
           
-          <div className="relative">
+          <div ref={wrapperRef} className="relative">
             <div
               ref={contentRef}
-              className="min-h-32 text-sm select-text p-4 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary/20 leading-relaxed"
-              contentEditable
+              className="min-h-32 text-sm select-text p-4 border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary/20 leading-relaxed whitespace-pre-wrap"
+              contentEditable={!readOnly}
               suppressContentEditableWarning
               onInput={handleContentChange}
-              onMouseUp={handleTextSelection}
+              onMouseUp={handleContentMouseUp}
+              onContextMenu={handleContentContextMenu}
               dangerouslySetInnerHTML={{ __html: renderAnnotatedContent() }}
               style={{ 
                 userSelect: 'text',
                 minHeight: '120px'
               }}
             />
+
+            {/* Drag handles for the span being edited */}
+            {handlePositions && editedAnnotation && (['start', 'end'] as const).map(edge => (
+              <div
+                key={edge}
+                data-resize-handle
+                className={`absolute z-10 w-1.5 rounded-full cursor-ew-resize touch-none shadow ${resizeDraft ? 'pointer-events-none' : ''}`}
+                style={{
+                  left: handlePositions[edge].x - 3,
+                  top: handlePositions[edge].y,
+                  height: handlePositions[edge].height,
+                  backgroundColor: resolveLevel(scale, editedAnnotation.relevanceLevel).color
+                }}
+                title={edge === 'start' ? 'Drag to move the start' : 'Drag to move the end'}
+                onPointerDown={(e) => startResize(edge, e)}
+              />
+            ))}
+
+            {/* Edit menu for an existing highlighted span */}
+            <Popover
+              open={!!editedAnnotation && !resizeDraft}
+              onOpenChange={(open) => !open && setEditTarget(null)}
+            >
+              <PopoverTrigger asChild>
+                <div
+                  aria-hidden
+                  className="absolute w-0 h-0"
+                  style={{ left: editTarget?.x ?? 0, top: editTarget?.y ?? 0 }}
+                />
+              </PopoverTrigger>
+              <PopoverContent
+                className="w-80 p-3"
+                onOpenAutoFocus={(e) => e.preventDefault()}
+                onInteractOutside={(e) => {
+                  if ((e.target as HTMLElement).closest?.('[data-resize-handle]')) e.preventDefault();
+                }}
+              >
+                {editTarget && editTarget.annotationIds.length > 1 && (
+                  <div className="flex flex-wrap gap-1 mb-3">
+                    {editTarget.annotationIds
+                      .map(id => annotations.find(a => a.id === id))
+                      .filter(Boolean)
+                      .map(annotation => {
+                        const level = resolveLevel(scale, annotation.relevanceLevel);
+                        return (
+                          <Badge
+                            key={annotation.id}
+                            variant={annotation.id === editTarget.activeId ? 'default' : 'outline'}
+                            className="text-[10px] h-5 px-1.5 cursor-pointer select-none"
+                            onClick={() => setEditTarget({ ...editTarget, activeId: annotation.id })}
+                          >
+                            {level.emoji} {level.label}
+                          </Badge>
+                        );
+                      })}
+                  </div>
+                )}
+                {editedAnnotation && (
+                  <AnnotationEditMenu
+                    key={editedAnnotation.id}
+                    annotation={editedAnnotation}
+                    scale={scale}
+                    onChange={handleAnnotationUpdate}
+                    onCopy={copyExcerpt}
+                    onDelete={deleteAnnotation}
+                  />
+                )}
+              </PopoverContent>
+            </Popover>
             
             {/* Inline Comment Input */}
             {showCommentInput && pendingAnnotation && (
@@ -437,8 +883,8 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
               >
                 <div className="space-y-2">
                   <div className="text-xs text-muted-foreground">
-                    <span className={`font-medium text-annotation-${pendingAnnotation.relevanceLevel}`}>
-                      {relevanceLevels.find(l => l.key === pendingAnnotation.relevanceLevel)?.emoji} {relevanceLevels.find(l => l.key === pendingAnnotation.relevanceLevel)?.label}
+                    <span className="font-medium" style={{ color: resolveLevel(scale, pendingAnnotation.relevanceLevel).color }}>
+                      {resolveLevel(scale, pendingAnnotation.relevanceLevel).emoji} {resolveLevel(scale, pendingAnnotation.relevanceLevel).label}
                     </span>
                     {" - Selection highlighted"}
                   </div>
@@ -467,14 +913,31 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
                       ↵
                     </Button>
                   </div>
+                  <div className="flex flex-wrap gap-1 max-w-72">
+                    {ISSUE_CATEGORIES.map(category => {
+                      const isSelected = pendingIssues.includes(category.id);
+                      return (
+                        <Badge
+                          key={category.id}
+                          variant={isSelected ? 'default' : 'outline'}
+                          className="text-[10px] h-5 px-1.5 cursor-pointer select-none"
+                          onClick={() => setPendingIssues(issues => toggleIssue(issues, category.id))}
+                        >
+                          {category.emoji} {category.label}
+                        </Badge>
+                      );
+                    })}
+                  </div>
                 </div>
               </div>
             )}
           </div>
 
-          <p className="text-xs text-muted-foreground mt-2">
-            💡 Select text to annotate with relevance levels. Non-selected areas will be kept without changes. Click to edit.
-          </p>
+          {!readOnly && (
+            <p className="text-xs text-muted-foreground mt-2">
+              💡 Select text to annotate with relevance levels. Non-selected areas will be kept without changes. Click a highlight to change it or drag its handles to resize it. Hold Alt/Option to keep an exact selection.
+            </p>
+          )}
         </div>
       </Card>
 
@@ -493,78 +956,43 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
                 {/* Calculate gradient based on actual text positions */}
                 {(() => {
                   const textLength = plainTextContent.length;
-                  let highChars = 0;
-                  let mediumChars = 0;
-                  let lowChars = 0;
-                  let neutralChars = 0;
-
-                  // Count characters for each relevance level
-                  annotations.forEach(annotation => {
-                    const length = annotation.endIndex - annotation.startIndex;
-                    switch (annotation.relevanceLevel) {
-                      case 'high': highChars += length; break;
-                      case 'medium': mediumChars += length; break;
-                      case 'low': lowChars += length; break;
-                      default: neutralChars += length;
-                    }
-                  });
+                  const coverage = coverageByLevel(visibleAnnotations, scale, textLength);
+
+                  // Neutral levels are drawn as part of the unannotated remainder;
+                  // the other levels form bands from least to most relevant
+                  const bands = levelsByWeight(scale)
+                    .filter(level => !isNeutralLevel(level))
+                    .reverse()
+                    .map(level => ({ level, percentage: Math.round(((coverage[level.id] ?? 0) / textLength) * 100) }))
+                    .filter(band => band.percentage > 0);
 
-                  const highPercentage = Math.round((highChars / textLength) * 100);
-                  const mediumPercentage = Math.round((mediumChars / textLength) * 100);
-                  const lowPercentage = Math.round((lowChars / textLength) * 100);
-                  const neutralPercentage = Math.round(((textLength - highChars - mediumChars - lowChars) / textLength) * 100);
-                  const annotatedPercentage = 100 - neutralPercentage;
+                  const annotatedPercentage = bands.reduce((sum, band) => sum + band.percentage, 0);
+                  const neutralPercentage = Math.max(0, 100 - annotatedPercentage);
 
                   // Create gradient stops based on annotation percentages
-                  let gradientStops = [];
+                  const gradientStops: string[] = [];
                   let currentPosition = 0;
-
-                  // Always start with blue (low relevance area)
-                  if (lowPercentage > 0) {
-                    gradientStops.push(`#3B82F6 ${currentPosition}%`);
-                    currentPosition += lowPercentage;
-                    gradientStops.push(`#3B82F6 ${currentPosition}%`);
-                  }
-
-                  // Add medium (yellow) if present
-                  if (mediumPercentage > 0) {
-                    if (lowPercentage > 0) {
-                      gradientStops.push(`#F59E0B ${currentPosition}%`);
-                    } else {
-                      gradientStops.push(`#F59E0B ${currentPosition}%`);
-                    }
-                    currentPosition += mediumPercentage;
-                    gradientStops.push(`#F59E0B ${currentPosition}%`);
-                  }
-
-                  // Add high (red) if present
-                  if (highPercentage > 0) {
-                    if (mediumPercentage > 0 || lowPercentage > 0) {
-                      gradientStops.push(`#EF4444 ${currentPosition}%`);
-                    } else {
-                      gradientStops.push(`#EF4444 ${currentPosition}%`);
-                    }
-                    currentPosition += highPercentage;
-                    gradientStops.push(`#EF4444 ${currentPosition}%`);
-                  }
+                  bands.forEach(({ level, percentage }) => {
+                    gradientStops.push(`${level.color} ${currentPosition}%`);
+                    // Rounding can push the bands a little past the end
+                    currentPosition = Math.min(100, currentPosition + percentage);
+                    gradientStops.push(`${level.color} ${currentPosition}%`);
+                  });
 
                   // Fill remaining with neutral (grey)
                   if (neutralPercentage > 0) {
-                    if (annotatedPercentage > 0) {
-                      gradientStops.push(`#9CA3AF ${currentPosition}%`);
-                    } else {
-                      gradientStops.push(`#9CA3AF 0%`);
-                    }
+                    gradientStops.push(`#9CA3AF ${currentPosition}%`);
                     gradientStops.push(`#9CA3AF 100%`);
                   }
 
-                  // Default to neutral if no annotations
-                  if (gradientStops.length === 0) {
-                    gradientStops = ['#9CA3AF 0%', '#9CA3AF 100%'];
-                  }
-
                   const gradientString = `linear-gradient(90deg, ${gradientStops.join(', ')})`;
 
+                  let labelPosition = 0;
+                  const labels = [
+                    ...bands.map(({ level, percentage }) => ({ key: level.id, emoji: level.emoji, percentage })),
+                    { key: 'neutral-remainder', emoji: '⚪', percentage: neutralPercentage }
+                  ].filter(label => label.percentage > 0);
+
                   return (
                     <>
                       <div 
@@ -576,54 +1004,23 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
                       
                       {/* Percentage displays positioned in their gradient areas */}
                       <div className="absolute inset-0 flex items-center">
-                        {lowPercentage > 0 && (
-                          <div 
-                            className="flex items-center justify-center h-full text-white text-xs font-bold drop-shadow-sm"
-                            style={{ 
-                              width: `${lowPercentage}%`,
-                              position: 'absolute',
-                              left: '0%'
-                            }}
-                          >
-                            ❄️{lowPercentage}%
-                          </div>
-                        )}
-                        {mediumPercentage > 0 && (
-                          <div 
-                            className="flex items-center justify-center h-full text-white text-xs font-bold drop-shadow-sm"
-                            style={{ 
-                              width: `${mediumPercentage}%`,
-                              position: 'absolute',
-                              left: `${lowPercentage}%`
-                            }}
-                          >
-                            ⚡{mediumPercentage}%
-                          </div>
-                        )}
-                        {highPercentage > 0 && (
-                          <div 
-                            className="flex items-center justify-center h-full text-white text-xs font-bold drop-shadow-sm"
-                            style={{ 
-                              width: `${highPercentage}%`,
-                              position: 'absolute',
-                              left: `${lowPercentage + mediumPercentage}%`
-                            }}
-                          >
-                            🔥{highPercentage}%
-                          </div>
-                        )}
-                        {neutralPercentage > 0 && (
-                          <div 
-                            className="flex items-center justify-center h-full text-white text-xs font-bold drop-shadow-sm"
-                            style={{ 
-                              width: `${neutralPercentage}%`,
-                              position: 'absolute',
-                              left: `${lowPercentage + mediumPercentage + highPercentage}%`
-                            }}
-                          >
-                            ⚪{neutralPercentage}%
-                          </div>
-                        )}
+                        {labels.map(label => {
+                          const left = labelPosition;
+                          labelPosition += label.percentage;
+                          return (
+                            <div 
+                              key={label.key}
+                              className="flex items-center justify-center h-full text-white text-xs font-bold drop-shadow-sm"
+                              style={{ 
+                                width: `${label.percentage}%`,
+                                position: 'absolute',
+                                left: `${left}%`
+                              }}
+                            >
+                              {label.emoji}{label.percentage}%
+                            </div>
+                          );
+                        })}
                       </div>
                     </>
                   );
@@ -641,53 +1038,116 @@ const AnnotationInterface: React.FC<AnnotationInterfaceProps> = ({
       </Card>
 
       {/* All Annotations List */}
-      {annotations.length > 0 && (
+      {visibleAnnotations.length > 0 && (
         <Card className="p-5">
           <div className="flex items-center justify-between mb-4">
             <div className="flex items-center gap-2">
               <Eye className="w-4 h-4" />
-              <h4 className="text-sm font-semibold text-foreground">All Annotations ({annotations.length})</h4>
+              <h4 className="text-sm font-semibold text-foreground">All Annotations ({visibleAnnotations.length})</h4>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={clearAnnotations}
-              className="h-7 text-xs"
-              disabled={annotations.length === 0}
-            >
-              <RotateCcw className="w-3 h-3 mr-1" />
-              Clear All
-            </Button>
+            {!readOnly && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={clearAnnotations}
+                className="h-7 text-xs"
+                disabled={!hasOwnAnnotations}
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Clear All
+              </Button>
+            )}
           </div>
-          <div className="space-y-3 max-h-80 overflow-y-auto">
-            {annotations.map((annotation, index) => (
-              <div key={annotation.id} className="border rounded-lg p-3 bg-background/50 group relative">
-                <div className="flex items-center justify-between mb-2">
-                  <span className={`text-annotation-${annotation.relevanceLevel} font-medium text-xs`}>
-                    {relevanceLevels.find(l => l.key === annotation.relevanceLevel)?.emoji} {relevanceLevels.find(l => l.key === annotation.relevanceLevel)?.label}
-                  </span>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => {
-                      const updatedAnnotations = annotations.filter(a => a.id !== annotation.id);
-                      onAnnotationsChange(updatedAnnotations);
-                    }}
-                    className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
-                  >
-                    ✕
-                  </Button>
-                </div>
-                <div className="text-xs text-foreground mb-2 font-medium">
-                  "{annotation.text}"
-                </div>
-                {annotation.comment && (
-                  <div className="text-xs text-muted-foreground italic">
-                    💬 {annotation.comment}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {visibleAnnotations.map((annotation) => (
+                <div
+                  key={annotation.id}
+                  onClick={() => setThreadAnnotationId(annotation.id)}
+                  className={`border rounded-lg p-3 bg-background/50 group relative cursor-pointer ${
+                    threadAnnotationId === annotation.id ? 'ring-2 ring-primary/40' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-xs" style={{ color: resolveLevel(scale, annotation.relevanceLevel).color }}>
+                        {resolveLevel(scale, annotation.relevanceLevel).emoji} {resolveLevel(scale, annotation.relevanceLevel).label}
+                      </span>
+                      {showAnnotators && (
+                        <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                          <span
+                            className="w-2 h-2 rounded-full"
+                            style={{ backgroundColor: resolveAnnotator(annotators, annotatorIdOf(annotation)).color }}
+                          />
+                          {resolveAnnotator(annotators, annotatorIdOf(annotation)).name}
+                        </span>
+                      )}
+                      {confidenceOf(annotation) < FULL_CONFIDENCE && (
+                        <Badge variant="outline" className="text-[10px] h-5 px-1.5" title="Confidence">
+                          {formatConfidence(confidenceOf(annotation))}
+                        </Badge>
+                      )}
+                      {annotation.orphaned && (
+                        <Badge
+                          variant="outline"
+                          className="text-[10px] h-5 px-1.5 text-destructive border-destructive/40"
+                          title="The annotated text was removed by an edit"
+                        >
+                          <Unlink className="w-3 h-3 mr-1" />
+                          Orphaned
+                        </Badge>
+                      )}
+                      {annotation.thread && annotation.thread.length > 0 && (
+                        <Badge variant="outline" className="text-[10px] h-5 px-1.5">
+                          <MessageSquare className="w-3 h-3 mr-1" />
+                          {annotation.thread.length}
+                        </Badge>
+                      )}
+                      {annotation.resolved && (
+                        <Badge variant="secondary" className="text-[10px] h-5 px-1.5">Resolved</Badge>
+                      )}
+                    </div>
+                    {!readOnly && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteAnnotation(annotation);
+                        }}
+                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
+                      >
+                        ✕
+                      </Button>
+                    )}
                   </div>
-                )}
-              </div>
-            ))}
+                  <div className={`text-xs mb-2 font-medium ${annotation.orphaned ? 'text-muted-foreground line-through' : 'text-foreground'}`}>
+                    "{annotation.text}"
+                  </div>
+                  {annotation.issues && annotation.issues.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {annotation.issues.map(id => getIssueCategory(id)).filter(Boolean).map(category => (
+                        <Badge key={category.id} variant="secondary" className="text-[10px] h-5 px-1.5">
+                          {category.emoji} {category.label}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {annotation.comment && (
+                    <div className="text-xs text-muted-foreground italic">
+                      💬 {annotation.comment}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+            <AnnotationThreadPanel
+              annotation={annotations.find(a => a.id === threadAnnotationId) ?? null}
+              scale={scale}
+              readOnly={readOnly}
+              author={resolveAnnotator(annotators, annotatorId)}
+              onChange={handleAnnotationUpdate}
+            />
           </div>
         </Card>
       )}
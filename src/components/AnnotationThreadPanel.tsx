@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle2, MessageSquare, Pencil, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  addReply,
+  deleteReply,
+  editReply,
+  setThreadResolved
+} from '@/lib/comment-thread';
+import type { Annotator } from '@/lib/annotators';
+import { resolveLevel, type RelevanceScale } from '@/lib/relevance-scale';
+import type { Annotation } from './AnnotationInterface';
+
+interface AnnotationThreadPanelProps {
+  annotation: Annotation | null;
+  scale: RelevanceScale;
+  readOnly?: boolean;
+  // The current annotator, who writes new replies
+  author: Annotator;
+  onChange: (annotation: Annotation) => void;
+}
+
+// editingId value while the annotation's own note is being edited
+const NOTE_ID = 'note';
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  dateStyle: 'short',
+  timeStyle: 'short'
+});
+
+const AnnotationThreadPanel: React.FC<AnnotationThreadPanelProps> = ({
+  annotation,
+  scale,
+  readOnly = false,
+  author,
+  onChange
+}) => {
+  const [replyText, setReplyText] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  if (!annotation) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center text-muted-foreground p-6 border rounded-lg border-dashed">
+        <MessageSquare className="w-8 h-8 mb-2 opacity-50" />
+        <p className="text-sm">Select an annotation to see its discussion.</p>
+      </div>
+    );
+  }
+
+  const level = resolveLevel(scale, annotation.relevanceLevel);
+  const thread = annotation.thread ?? [];
+
+  const submitReply = () => {
+    if (!replyText.trim()) return;
+    onChange(addReply(annotation, author, replyText));
+    setReplyText('');
+  };
+
+  const submitEdit = () => {
+    if (!editingId) return;
+    if (editingId === NOTE_ID) {
+      onChange({ ...annotation, comment: editText.trim() || undefined });
+    } else if (editText.trim()) {
+      onChange(editReply(annotation, editingId, editText));
+    }
+    setEditingId(null);
+    setEditText('');
+  };
+
+  return (
+    <div className="border rounded-lg p-3 bg-background/50 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="space-y-1 min-w-0">
+          <span className="font-medium text-xs" style={{ color: level.color }}>
+            {level.emoji} {level.label}
+          </span>
+          <p className="text-xs font-medium text-foreground line-clamp-2">"{annotation.text}"</p>
+        </div>
+        {annotation.resolved && (
+          <Badge variant="secondary" className="text-[10px] h-5 px-1.5 shrink-0">
+            <CheckCircle2 className="w-3 h-3 mr-1" />
+            Resolved
+          </Badge>
+        )}
+      </div>
+
+      {editingId === NOTE_ID ? (
+        <Input
+          value={editText}
+          onChange={(e) => setEditText(e.target.value)}
+          onBlur={submitEdit}
+          autoFocus
+          placeholder="Note on this annotation"
+          className="text-xs h-8"
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              submitEdit();
+            } else if (e.key === 'Escape') {
+              setEditingId(null);
+            }
+          }}
+        />
+      ) : (
+        <div className="group flex items-start justify-between gap-2">
+          <div className="text-xs text-muted-foreground italic">
+            💬 {annotation.comment || 'No note'}
+          </div>
+          {!readOnly && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Edit note"
+              onClick={() => {
+                setEditingId(NOTE_ID);
+                setEditText(annotation.comment ?? '');
+              }}
+            >
+              <Pencil className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {thread.length === 0 && (
+          <p className="text-xs text-muted-foreground">No replies yet.</p>
+        )}
+        {thread.map(comment => (
+          <div key={comment.id} className="group rounded-md bg-muted/40 p-2 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-xs">
+                <span className="font-medium text-foreground">{comment.author}</span>
+                <span className="text-muted-foreground ml-2">
+                  {formatTime(comment.createdAt)}
+                  {comment.editedAt && ' (edited)'}
+                </span>
+              </div>
+              {!readOnly && editingId !== comment.id && (
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Edit reply"
+                    onClick={() => {
+                      setEditingId(comment.id);
+                      setEditText(comment.body);
+                    }}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 hover:text-destructive"
+                    title="Delete reply"
+                    onClick={() => onChange(deleteReply(annotation, comment.id))}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              )}
+            </div>
+            {editingId === comment.id ? (
+              <Input
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                onBlur={submitEdit}
+                autoFocus
+                className="text-xs h-8"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    submitEdit();
+                  } else if (e.key === 'Escape') {
+                    setEditingId(null);
+                  }
+                }}
+              />
+            ) : (
+              <p className="text-xs text-foreground whitespace-pre-wrap">{comment.body}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {!readOnly && (
+        <div className="space-y-2 border-t pt-3">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            Replying as
+            <span className="flex items-center gap-1 font-medium text-foreground">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: author.color }} />
+              {author.name}
+            </span>
+          </div>
+          <Textarea
+            value={replyText}
+            onChange={(e) => setReplyText(e.target.value)}
+            placeholder="Reply to this annotation…"
+            className="text-xs min-h-16"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                submitReply();
+              }
+            }}
+          />
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => onChange(setThreadResolved(annotation, !annotation.resolved))}
+            >
+              {annotation.resolved ? (
+                <>
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  Reopen
+                </>
+              ) : (
+                <>
+                  <CheckCircle2 className="w-3 h-3 mr-1" />
+                  Resolve
+                </>
+              )}
+            </Button>
+            <Button size="sm" className="h-7 text-xs" onClick={submitReply} disabled={!replyText.trim()}>
+              Reply
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationThreadPanel;
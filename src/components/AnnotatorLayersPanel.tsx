@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Eye, EyeOff, Layers, UserPlus } from 'lucide-react';
+import { generateAnnotatorId, GOLD_ANNOTATOR, UNASSIGNED_ANNOTATOR, type Annotator } from '@/lib/annotators';
+
+interface AnnotatorLayersPanelProps {
+  // Everyone with a layer in the session, including the current annotator
+  annotators: Annotator[];
+  currentAnnotatorId: string;
+  hiddenAnnotatorIds: string[];
+  // Text annotations plus canvas strokes per annotator id
+  markCounts: Record<string, number>;
+  onToggleVisibility: (annotatorId: string) => void;
+  onAnnotatorChange: (annotator: Pick<Annotator, 'id' | 'name'>) => void;
+}
+
+// Select value that switches to the new-annotator form
+const NEW_ANNOTATOR = '__new';
+
+const AnnotatorLayersPanel: React.FC<AnnotatorLayersPanelProps> = ({
+  annotators,
+  currentAnnotatorId,
+  hiddenAnnotatorIds,
+  markCounts,
+  onToggleVisibility,
+  onAnnotatorChange
+}) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const addAnnotator = () => {
+    if (!newName.trim()) return;
+    onAnnotatorChange({ id: generateAnnotatorId(), name: newName.trim() });
+    setNewName('');
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-3 mb-4 rounded-lg border bg-background/50">
+      <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+        <Layers className="w-4 h-4" />
+        Layers
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {annotators.map(annotator => {
+          const isHidden = hiddenAnnotatorIds.includes(annotator.id);
+          return (
+            <Button
+              key={annotator.id}
+              variant="outline"
+              size="sm"
+              className={`h-8 text-xs ${isHidden ? 'opacity-50' : ''}`}
+              onClick={() => onToggleVisibility(annotator.id)}
+              title={isHidden ? `Show ${annotator.name}'s marks` : `Hide ${annotator.name}'s marks`}
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: annotator.color }} />
+              {annotator.name}
+              {annotator.id === currentAnnotatorId && <span className="text-muted-foreground">(you)</span>}
+              <span className="text-muted-foreground">{markCounts[annotator.id] ?? 0}</span>
+              {isHidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+            </Button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-2 ml-auto">
+        <span className="text-xs text-muted-foreground">Annotating as</span>
+        {isAdding ? (
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onBlur={() => setIsAdding(false)}
+            autoFocus
+            placeholder="Name"
+            className="h-8 w-40 text-xs"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addAnnotator();
+              } else if (e.key === 'Escape') {
+                setIsAdding(false);
+              }
+            }}
+          />
+        ) : (
+          <Select
+            value={currentAnnotatorId}
+            onValueChange={(value) => {
+              if (value === NEW_ANNOTATOR) {
+                setIsAdding(true);
+                return;
+              }
+              const annotator = annotators.find(a => a.id === value);
+              if (annotator) onAnnotatorChange(annotator);
+            }}
+          >
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {annotators.filter(annotator => annotator.id !== UNASSIGNED_ANNOTATOR.id && annotator.id !== GOLD_ANNOTATOR.id).map(annotator => (
+                <SelectItem key={annotator.id} value={annotator.id} className="text-xs">
+                  {annotator.name}
+                </SelectItem>
+              ))}
+              <SelectSeparator />
+              <SelectItem value={NEW_ANNOTATOR} className="text-xs">
+                <span className="flex items-center gap-1">
+                  <UserPlus className="w-3 h-3" />
+                  New annotator…
+                </span>
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnnotatorLayersPanel;
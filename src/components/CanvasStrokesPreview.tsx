@@ -0,0 +1,70 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Card } from '@/components/ui/card';
+import { CANVAS_PAGE_HEIGHT, CANVAS_PAGE_WIDTH, pageOf, paintTextPage } from '@/lib/canvas-text-layout';
+import type { RelevanceScale } from '@/lib/relevance-scale';
+import InkLayerCanvas from './InkLayerCanvas';
+import type { CanvasAnnotation } from './InteractiveCanvas';
+
+interface CanvasStrokesPreviewProps {
+  text: string;
+  annotations: CanvasAnnotation[];
+  scale: RelevanceScale;
+}
+
+const PageText: React.FC<{ text: string; page: number }> = ({ text, page }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) paintTextPage(ctx, text, page);
+  }, [text, page]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={CANVAS_PAGE_WIDTH}
+      height={CANVAS_PAGE_HEIGHT}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  );
+};
+
+// Read-only canvas pages that carry strokes, with the response text beneath them. Legacy ink
+// is not shown: it has no stroke paths and is left out of share links.
+const CanvasStrokesPreview: React.FC<CanvasStrokesPreviewProps> = ({ text, annotations, scale }) => {
+  const strokesByPage = useMemo(() => {
+    const pages = new Map<number, CanvasAnnotation[]>();
+    annotations.forEach(a => {
+      if (!a.stroke) return;
+      pages.set(pageOf(a), [...(pages.get(pageOf(a)) ?? []), a]);
+    });
+    return [...pages.entries()].sort(([a], [b]) => a - b);
+  }, [annotations]);
+
+  if (strokesByPage.length === 0) return null;
+
+  return (
+    <Card className="p-6 space-y-4">
+      <h3 className="text-sm font-semibold text-muted-foreground">Canvas strokes</h3>
+      {strokesByPage.map(([page, strokes]) => (
+        <div key={page} className="space-y-1">
+          {strokesByPage.length > 1 && (
+            <p className="text-xs text-muted-foreground">Page {page + 1}</p>
+          )}
+          <div className="relative aspect-[4/3] w-full overflow-hidden rounded-xl border bg-white">
+            <PageText text={text} page={page} />
+            <InkLayerCanvas
+              width={CANVAS_PAGE_WIDTH}
+              height={CANVAS_PAGE_HEIGHT}
+              annotations={strokes}
+              scale={scale}
+              className="absolute inset-0 w-full h-full pointer-events-none"
+            />
+          </div>
+        </div>
+      ))}
+    </Card>
+  );
+};
+
+export default CanvasStrokesPreview;
@@ -3,31 +3,65 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { PenTool, Type, BarChart3, Sparkles } from 'lucide-react';
+import { PenTool, Type, BarChart3, Sparkles, SlidersHorizontal } from 'lucide-react';
 import InteractiveCanvas, { type CanvasAnnotation } from './InteractiveCanvas';
-import AnnotationInterface, { type Annotation } from './AnnotationInterface';
+import AnnotationInterface, { type Annotation, type AnnotationFocusRequest } from './AnnotationInterface';
+import AnnotatorLayersPanel from './AnnotatorLayersPanel';
 import PromptRefinement from './PromptRefinement';
+import { annotatorIdOf, annotatorsInUse, resolveAnnotator, type Annotator, type InkLayers } from '@/lib/annotators';
+import { hasGoldLayer } from '@/lib/adjudication';
+import { collectRefinementAnnotations, type RefinementSource } from '@/lib/refinement';
+import { hullArea } from '@/lib/stroke-geometry';
+import type { RelevanceScale } from '@/lib/relevance-scale';
+import type { HistoryControls } from '@/hooks/use-history';
+
+export type AnnotationMode = 'canvas' | 'text';
 
 interface CombinedAnnotationInterfaceProps {
   content: string;
+  originalPrompt: string;
+  textAnnotations: Annotation[];
+  canvasAnnotations: CanvasAnnotation[];
+  canvasInk?: InkLayers;
+  scale: RelevanceScale;
+  // The session's annotators, including the current one
+  annotators: Annotator[];
+  annotatorId: string;
+  hiddenAnnotatorIds: string[];
+  onToggleAnnotatorVisibility: (annotatorId: string) => void;
+  onAnnotatorChange: (annotator: Pick<Annotator, 'id' | 'name'>) => void;
+  activeMode: AnnotationMode;
+  onActiveModeChange: (mode: AnnotationMode) => void;
   onContentChange: (content: string) => void;
+  onTextAnnotationsChange: (annotations: Annotation[]) => void;
+  onCanvasAnnotationsChange: (annotations: CanvasAnnotation[], ink?: string) => void;
+  history?: HistoryControls;
+  focusRequest?: AnnotationFocusRequest;
+  onEditScale?: () => void;
 }
 
 const CombinedAnnotationInterface: React.FC<CombinedAnnotationInterfaceProps> = ({
   content,
-  onContentChange
+  originalPrompt,
+  textAnnotations,
+  canvasAnnotations,
+  canvasInk,
+  scale,
+  annotators,
+  annotatorId,
+  hiddenAnnotatorIds,
+  onToggleAnnotatorVisibility,
+  onAnnotatorChange,
+  activeMode,
+  onActiveModeChange,
+  onContentChange,
+  onTextAnnotationsChange,
+  onCanvasAnnotationsChange,
+  history,
+  focusRequest,
+  onEditScale
 }) => {
-  const [canvasAnnotations, setCanvasAnnotations] = useState<CanvasAnnotation[]>([]);
-  const [textAnnotations, setTextAnnotations] = useState<Annotation[]>([]);
-  const [activeMode, setActiveMode] = useState<'canvas' | 'text'>('canvas');
-
-  const handleCanvasAnnotationsChange = (newAnnotations: CanvasAnnotation[]) => {
-    setCanvasAnnotations(newAnnotations);
-  };
-
-  const handleTextAnnotationsChange = (newAnnotations: Annotation[]) => {
-    setTextAnnotations(newAnnotations);
-  };
+  const [refinementSource, setRefinementSource] = useState<RefinementSource>('gold');
 
   const handleRefinePrompt = () => {
     const element = document.getElementById('prompt-refinement');
@@ -39,20 +73,54 @@ const CombinedAnnotationInterface: React.FC<CombinedAnnotationInterfaceProps> =
   // Combine both annotation types for total count
   const totalAnnotations = canvasAnnotations.length + textAnnotations.length;
 
+  const allMarks = [...textAnnotations, ...canvasAnnotations];
+  const inUse = annotatorsInUse(annotators, allMarks, canvasInk);
+  const layers = inUse.some(a => a.id === annotatorId) ? inUse : [...inUse, resolveAnnotator(annotators, annotatorId)];
+  // Canvas ink per level, measured by stroke hulls; strokes recorded without a hull are left out
+  const inkAreas = canvasAnnotations.reduce<Record<string, number>>(
+    (areas, annotation) => annotation.hull
+      ? { ...areas, [annotation.type]: (areas[annotation.type] ?? 0) + hullArea(annotation.hull) }
+      : areas,
+    {}
+  );
+  const totalInkArea = Object.values(inkAreas).reduce((sum, area) => sum + area, 0);
+
+  const markCounts = allMarks.reduce<Record<string, number>>((counts, mark) => {
+    const id = annotatorIdOf(mark);
+    return { ...counts, [id]: (counts[id] ?? 0) + 1 };
+  }, {});
+
   return (
     <div className="space-y-8">
       {/* Mode Selection */}
       <Card className="p-6">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-semibold text-foreground">Annotation Interface</h2>
-          {totalAnnotations > 0 && (
-            <Badge variant="secondary" className="text-sm px-3 py-1">
-              {totalAnnotations} annotation{totalAnnotations !== 1 ? 's' : ''}
-            </Badge>
-          )}
+          <div className="flex items-center gap-2">
+            {onEditScale && (
+              <Button variant="outline" size="sm" onClick={onEditScale} title="Edit relevance scale">
+                <SlidersHorizontal className="w-4 h-4" />
+                {scale.name}
+              </Button>
+            )}
+            {totalAnnotations > 0 && (
+              <Badge variant="secondary" className="text-sm px-3 py-1">
+                {totalAnnotations} annotation{totalAnnotations !== 1 ? 's' : ''}
+              </Badge>
+            )}
+          </div>
         </div>
         
-        <Tabs value={activeMode} onValueChange={(value) => setActiveMode(value as 'canvas' | 'text')}>
+        <AnnotatorLayersPanel
+          annotators={layers}
+          currentAnnotatorId={annotatorId}
+          hiddenAnnotatorIds={hiddenAnnotatorIds}
+          markCounts={markCounts}
+          onToggleVisibility={onToggleAnnotatorVisibility}
+          onAnnotatorChange={onAnnotatorChange}
+        />
+
+        <Tabs value={activeMode} onValueChange={(value) => onActiveModeChange(value as AnnotationMode)}>
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="canvas" className="flex items-center gap-2">
               <PenTool className="w-4 h-4" />
@@ -67,7 +135,14 @@ const CombinedAnnotationInterface: React.FC<CombinedAnnotationInterfaceProps> =
           <TabsContent value="canvas" className="mt-6">
             <InteractiveCanvas
               text={content}
-              onAnnotationsChange={handleCanvasAnnotationsChange}
+              annotations={canvasAnnotations}
+              scale={scale}
+              ink={canvasInk}
+              onAnnotationsChange={onCanvasAnnotationsChange}
+              history={history}
+              annotatorId={annotatorId}
+              annotators={annotators}
+              hiddenAnnotatorIds={hiddenAnnotatorIds}
             />
           </TabsContent>
           
@@ -75,9 +150,15 @@ const CombinedAnnotationInterface: React.FC<CombinedAnnotationInterfaceProps> =
             <AnnotationInterface
               content={content}
               onContentChange={onContentChange}
-              onAnnotationsChange={handleTextAnnotationsChange}
+              onAnnotationsChange={onTextAnnotationsChange}
               onRefinePrompt={handleRefinePrompt}
               annotations={textAnnotations}
+              scale={scale}
+              history={history}
+              focusRequest={focusRequest}
+              annotatorId={annotatorId}
+              annotators={annotators}
+              hiddenAnnotatorIds={hiddenAnnotatorIds}
             />
           </TabsContent>
         </Tabs>
@@ -96,30 +177,19 @@ const CombinedAnnotationInterface: React.FC<CombinedAnnotationInterfaceProps> =
               <div className="text-3xl font-bold text-primary">{totalAnnotations}</div>
               <div className="text-sm text-muted-foreground">Total</div>
             </div>
-            <div className="text-center">
-              <div className="text-3xl font-bold text-annotation-high">
-                {canvasAnnotations.filter(a => a.type === 'high').length + textAnnotations.filter(a => a.relevanceLevel === 'high').length}
-              </div>
-              <div className="text-sm text-muted-foreground">High</div>
-            </div>
-            <div className="text-center">
-              <div className="text-3xl font-bold text-annotation-medium">
-                {canvasAnnotations.filter(a => a.type === 'medium').length + textAnnotations.filter(a => a.relevanceLevel === 'medium').length}
-              </div>
-              <div className="text-sm text-muted-foreground">Medium</div>
-            </div>
-            <div className="text-center">
-              <div className="text-3xl font-bold text-annotation-low">
-                {canvasAnnotations.filter(a => a.type === 'low').length + textAnnotations.filter(a => a.relevanceLevel === 'low').length}
-              </div>
-              <div className="text-sm text-muted-foreground">Low</div>
-            </div>
-            <div className="text-center">
-              <div className="text-3xl font-bold text-annotation-neutral">
-                {canvasAnnotations.filter(a => a.type === 'neutral').length + textAnnotations.filter(a => a.relevanceLevel === 'neutral').length}
+            {scale.levels.map(level => (
+              <div key={level.id} className="text-center">
+                <div className="text-3xl font-bold" style={{ color: level.color }}>
+                  {canvasAnnotations.filter(a => a.type === level.id).length + textAnnotations.filter(a => a.relevanceLevel === level.id).length}
+                </div>
+                <div className="text-sm text-muted-foreground">{level.emoji} {level.label}</div>
+                {totalInkArea > 0 && (
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {Math.round(((inkAreas[level.id] ?? 0) / totalInkArea) * 100)}% of canvas ink
+                  </div>
+                )}
               </div>
-              <div className="text-sm text-muted-foreground">Neutral</div>
-            </div>
+            ))}
           </div>
         </Card>
       )}
@@ -127,20 +197,30 @@ const CombinedAnnotationInterface: React.FC<CombinedAnnotationInterfaceProps> =
       {/* Prompt Refinement */}
       {totalAnnotations > 0 && (
         <div id="prompt-refinement">
+          {hasGoldLayer(textAnnotations) && (
+            <div className="flex items-center justify-end gap-2 mb-4">
+              <span className="text-xs text-muted-foreground">Refine from</span>
+              <Button
+                variant={refinementSource === 'gold' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setRefinementSource('gold')}
+              >
+                Gold layer
+              </Button>
+              <Button
+                variant={refinementSource === 'all' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setRefinementSource('all')}
+              >
+                All annotators
+              </Button>
+            </div>
+          )}
           <PromptRefinement
-            originalPrompt="Please analyze this AI response and improve it based on my feedback:"
+            originalPrompt={originalPrompt}
             originalResponse={content}
-            annotations={[
-              ...canvasAnnotations.map(a => ({
-                id: a.id,
-                text: `Canvas ${a.type} annotation`,
-                relevanceLevel: a.type,
-                comment: `Canvas drawing with ${Math.round(a.pressure * 100)}% pressure`,
-                startIndex: 0,
-                endIndex: 50
-              })),
-              ...textAnnotations
-            ]}
+            annotations={collectRefinementAnnotations(textAnnotations, canvasAnnotations, scale, refinementSource)}
+            scale={scale}
           />
         </div>
       )}
@@ -0,0 +1,45 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import type { WorkspaceDraft } from '@/lib/draft-store';
+
+interface DraftRecoveryDialogProps {
+  draft: WorkspaceDraft | null;
+  onRestore: (draft: WorkspaceDraft) => void;
+  onDiscard: () => void;
+}
+
+const DraftRecoveryDialog: React.FC<DraftRecoveryDialogProps> = ({ draft, onRestore, onDiscard }) => {
+  const annotationCount = draft
+    ? draft.session.textAnnotations.length + draft.session.canvasAnnotations.length
+    : 0;
+
+  return (
+    <AlertDialog open={draft !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Restore unsaved work?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your last visit ended before "{draft?.session.title}" was saved. An autosaved draft from{' '}
+            {draft && new Date(draft.savedAt).toLocaleString()} with {annotationCount} annotation
+            {annotationCount !== 1 ? 's' : ''} is available.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDiscard}>Discard draft</AlertDialogCancel>
+          <AlertDialogAction onClick={() => draft && onRestore(draft)}>Restore</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default DraftRecoveryDialog;
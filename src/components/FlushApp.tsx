@@ -3,6 +3,7 @@ import FlushHeader from './FlushHeader';
 import AnnotationInterface, { type Annotation } from './AnnotationInterface';
 import PromptRefinement from './PromptRefinement';
 import AnalyticsDashboard from './AnalyticsDashboard';
+import { DEFAULT_SCALE } from '@/lib/relevance-scale';
 
 const FlushApp: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'annotate' | 'analytics'>('annotate');
@@ -36,6 +37,7 @@ const FlushApp: React.FC = () => {
               onAnnotationsChange={handleAnnotationsChange}
               onRefinePrompt={handleRefinePrompt}
               annotations={annotations}
+              scale={DEFAULT_SCALE}
             />
             
             <div id="refine-section">
@@ -43,6 +45,7 @@ const FlushApp: React.FC = () => {
                 originalPrompt="Enter your original prompt here..."
                 originalResponse={content}
                 annotations={annotations}
+                scale={DEFAULT_SCALE}
               />
             </div>
           </div>
@@ -51,6 +54,7 @@ const FlushApp: React.FC = () => {
         return (
           <AnalyticsDashboard
             annotations={annotations}
+            scale={DEFAULT_SCALE}
             originalPrompt="Enter your original prompt here..."
             originalResponse={content}
           />
@@ -1,83 +1,522 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Card } from '@/components/ui/card';
-import { Zap, Sparkles, BarChart3, PenTool } from 'lucide-react';
-import CombinedAnnotationInterface from './CombinedAnnotationInterface';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { Zap, Sparkles, BarChart3, PenTool, Library, Save, FileDown, Share2, Folder, Search, History, Gavel } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveSession, useSessions } from '@/hooks/use-sessions';
+import { useProjects } from '@/hooks/use-projects';
+import { useHistory, useHistoryShortcuts } from '@/hooks/use-history';
+import { useAutosave } from '@/hooks/use-autosave';
+import { clearDraft, loadDraft, type WorkspaceDraft } from '@/lib/draft-store';
+import { createCanvasCommand, createContentCommand, createTextAnnotationsCommand, type HistoryCommand } from '@/lib/history';
+import { remapAnnotations } from '@/lib/anchoring';
+import { hasGoldLayer, withGoldAnnotator } from '@/lib/adjudication';
+import { getLocalAnnotator, saveLocalAnnotator, setInkLayer, withAnnotator, type Annotator } from '@/lib/annotators';
+import { buildRefinedPrompt, collectRefinementAnnotations } from '@/lib/refinement';
+import { applySessionScale, createSession, deriveSessionTitle, UNFILED_PROJECT, type FlushSession, type SessionFilter } from '@/lib/session-store';
+import type { RelevanceScale } from '@/lib/relevance-scale';
+import { exportSessionFile } from '@/lib/session-format';
+import { createShareLink } from '@/lib/share-link';
+import type { SearchResult } from '@/lib/search-index';
+import AdjudicationView from './AdjudicationView';
+import AnalyticsDashboard from './AnalyticsDashboard';
+import CombinedAnnotationInterface, { type AnnotationMode } from './CombinedAnnotationInterface';
+import DraftRecoveryDialog from './DraftRecoveryDialog';
+import ProjectNavigator from './ProjectNavigator';
+import ScaleEditorDialog from './ScaleEditorDialog';
+import SearchDialog from './SearchDialog';
+import SessionLibrary from './SessionLibrary';
+import SessionTimeline from './SessionTimeline';
+import UnsavedChangesDialog from './UnsavedChangesDialog';
+import type { Annotation, AnnotationFocusRequest } from './AnnotationInterface';
+import type { CanvasAnnotation } from './InteractiveCanvas';
 
-const FlushiPadApp: React.FC = () => {
-  const [content, setContent] = useState(`Artificial Intelligence has revolutionized the way we interact with technology. From voice assistants to recommendation systems, AI is now an integral part of our daily lives.
+const SAMPLE_CONTENT = `Artificial Intelligence has revolutionized the way we interact with technology. From voice assistants to recommendation systems, AI is now an integral part of our daily lives.
 
 Machine learning algorithms power search engines, social media feeds, and even the apps on our phones. The technology has advanced rapidly in recent years, with breakthroughs in neural networks and deep learning.
 
 However, there are important considerations around ethics, privacy, and the future impact of AI on employment and society. As we continue to develop these systems, we must balance innovation with responsibility.
 
-The next decade will likely bring even more sophisticated AI capabilities, including better natural language processing and more human-like interactions.`);
-  
-  const [activeTab, setActiveTab] = useState<'annotation' | 'analytics'>('annotation');
+The next decade will likely bring even more sophisticated AI capabilities, including better natural language processing and more human-like interactions.`;
+
+const FlushiPadApp: React.FC = () => {
+  const [session, setSession] = useState<FlushSession>(() => createSession({ content: SAMPLE_CONTENT }));
+  // The session as last rendered, so a finished save can tell whether edits arrived meanwhile
+  const latestSessionRef = useRef(session);
+  latestSessionRef.current = session;
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [activeTab, setActiveTab] = useState<'annotation' | 'library' | 'timeline' | 'analytics' | 'adjudication'>('annotation');
+  const [activeMode, setActiveMode] = useState<AnnotationMode>('canvas');
+  const [recoverableDraft, setRecoverableDraft] = useState<WorkspaceDraft | null>(null);
+  const [draftChecked, setDraftChecked] = useState(false);
+  const [libraryFilter, setLibraryFilter] = useState<SessionFilter>({});
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<AnnotationFocusRequest | undefined>();
+  const [isEditingScale, setIsEditingScale] = useState(false);
+  // Bumped when the scale changes: remapped annotations would not survive undoing older steps
+  const [scaleRevision, setScaleRevision] = useState(0);
+  const [annotator, setAnnotator] = useState(getLocalAnnotator);
+  // Layer visibility is a view preference and is not saved with the session
+  const [hiddenAnnotatorIds, setHiddenAnnotatorIds] = useState<string[]>([]);
+  // Replacing the workspace session waits here while its unsaved changes are confirmed
+  const [pendingSwitch, setPendingSwitch] = useState<(() => void) | null>(null);
+  const saveSession = useSaveSession();
+  const { data: savedSessions = [] } = useSessions();
+  const { data: projects = [] } = useProjects();
+  const { execute, controls: history } = useHistory(setSession, `${session.id}:${scaleRevision}`);
+  const { toast } = useToast();
+
+  useHistoryShortcuts(history, activeTab === 'annotation');
+  useAutosave(session, activeMode, {
+    enabled: draftChecked && recoverableDraft === null,
+    hasUnsavedChanges
+  });
+
+  useEffect(() => {
+    loadDraft()
+      .then(draft => setRecoverableDraft(draft ?? null))
+      .catch(err => console.warn('Could not read autosaved draft', err))
+      .finally(() => setDraftChecked(true));
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setSearchOpen(open => !open);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleRestoreDraft = (draft: WorkspaceDraft) => {
+    setSession(draft.session);
+    setActiveMode(draft.activeMode);
+    setHasUnsavedChanges(true);
+    setActiveTab('annotation');
+    setRecoverableDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    clearDraft().catch(err => console.warn('Could not clear autosaved draft', err));
+    setRecoverableDraft(null);
+  };
+
+  const projectName = projects.find(p => p.id === session.projectId)?.name;
+
+  const sessionAnnotators = withAnnotator(session.annotators, annotator);
+
+  // Changes are made by the current annotator, who joins the session's list on their first mark
+  const executeCommand = (command: HistoryCommand | null) => {
+    if (!command) return;
+    execute(command);
+    setSession(current => ({ ...current, annotators: withAnnotator(current.annotators, annotator) }));
+    setHasUnsavedChanges(true);
+  };
+
+  const handleAnnotatorChange = (next: Pick<Annotator, 'id' | 'name'>) => {
+    setAnnotator(next);
+    saveLocalAnnotator(next);
+    setHiddenAnnotatorIds(ids => ids.filter(id => id !== next.id));
+  };
+
+  const toggleAnnotatorVisibility = (annotatorId: string) => {
+    setHiddenAnnotatorIds(ids => ids.includes(annotatorId) ? ids.filter(id => id !== annotatorId) : [...ids, annotatorId]);
+  };
+
+  const handleContentChange = (content: string) => {
+    executeCommand(createContentCommand(
+      { content: session.content, annotations: session.textAnnotations },
+      { content, annotations: remapAnnotations(session.textAnnotations, session.content, content) }
+    ));
+  };
+
+  const handleTextAnnotationsChange = (textAnnotations: Annotation[]) => {
+    executeCommand(createTextAnnotationsCommand(session.textAnnotations, textAnnotations));
+  };
+
+  // Adjudication writes the gold layer, which joins the session's annotators on its first label
+  const handleGoldAnnotationsChange = (textAnnotations: Annotation[]) => {
+    executeCommand(createTextAnnotationsCommand(session.textAnnotations, textAnnotations));
+    setSession(current => ({ ...current, annotators: withGoldAnnotator(current.annotators) }));
+  };
+
+  // The canvas reports the ink of the current annotator's layer only
+  const handleCanvasAnnotationsChange = (canvasAnnotations: CanvasAnnotation[], layerInk?: string) => {
+    executeCommand(createCanvasCommand(
+      { annotations: session.canvasAnnotations, ink: session.canvasInk },
+      { annotations: canvasAnnotations, ink: setInkLayer(session.canvasInk, annotator.id, layerInk) }
+    ));
+  };
+
+  const withRefinedPrompt = (current: FlushSession): FlushSession => ({
+    ...current,
+    refinedPrompt: buildRefinedPrompt(
+      current.originalPrompt,
+      collectRefinementAnnotations(current.textAnnotations, current.canvasAnnotations, current.scale),
+      current.scale
+    )
+  });
+
+  const handleScaleSave = (scale: RelevanceScale) => {
+    setIsEditingScale(false);
+    setSession(current => applySessionScale(current, scale));
+    setScaleRevision(revision => revision + 1);
+    setHasUnsavedChanges(true);
+  };
+
+  const handleSave = (onSaved?: () => void) => {
+    const isNew = session.createdAt === session.updatedAt;
+    const title = isNew ? deriveSessionTitle(session.content) : session.title;
+
+    const saving = session;
+    saveSession.mutate(withRefinedPrompt({ ...session, title }), {
+      onSuccess: (saved) => {
+        // Only what the save produced is taken over; edits made while it ran are kept
+        setSession(current => ({
+          ...current,
+          id: saved.id,
+          title: saved.title,
+          updatedAt: saved.updatedAt,
+          refinedPrompt: saved.refinedPrompt
+        }));
+        if (latestSessionRef.current === saving) setHasUnsavedChanges(false);
+        toast({
+          title: "Session saved",
+          description: `"${saved.title}" is stored in your library`,
+        });
+        onSaved?.();
+      },
+      onError: (err) => {
+        toast({
+          title: "Save failed",
+          description: err instanceof Error ? err.message : "Could not write to browser storage",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const handleExport = () => {
+    const fileName = exportSessionFile(withRefinedPrompt(session), projectName);
+    toast({
+      title: "Exported!",
+      description: hasGoldLayer(session.textAnnotations)
+        ? `${fileName} saved to your downloads. The refined prompt uses the gold layer.`
+        : `${fileName} saved to your downloads`,
+    });
+  };
+
+  const handleShare = async () => {
+    try {
+      const link = await createShareLink(withRefinedPrompt(session));
+      await navigator.clipboard.writeText(link);
+      toast({
+        title: "Share link copied!",
+        description: session.canvasInk
+          ? "Anyone with the link can review the annotations. Canvas ink drawn before strokes were saved as paths is not included."
+          : "Anyone with the link can review the annotations.",
+      });
+    } catch (err) {
+      toast({
+        title: "Share failed",
+        description: "Could not create or copy the share link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Run `replace` right away, or once the unsaved changes are saved or discarded; clearing the
+  // unsaved flag also deletes the autosaved draft, so it must not happen without asking
+  const confirmSessionSwitch = (replace: () => void) => {
+    if (hasUnsavedChanges) setPendingSwitch(() => replace);
+    else replace();
+  };
+
+  const openSession = (opened: FlushSession) => {
+    setSession(opened);
+    setFocusRequest(undefined);
+    setHasUnsavedChanges(false);
+    setActiveTab('annotation');
+  };
+
+  const handleOpenSession = (opened: FlushSession) => {
+    confirmSessionSwitch(() => openSession(opened));
+  };
+
+  // Open the session a result came from (keeping the workspace copy if it is already open)
+  // and jump to the annotation that matched, or the one covering the matched response text
+  const handleSearchResult = ({ entry, matchOffset }: SearchResult) => {
+    const target = entry.sessionId === session.id
+      ? session
+      : savedSessions.find(s => s.id === entry.sessionId);
+    if (!target) return;
+
+    const showResult = () => {
+      if (target !== session) openSession(target);
+      setActiveTab('annotation');
+      setActiveMode('text');
+
+      const annotationId = entry.annotationId ?? target.textAnnotations.find(a =>
+        !a.orphaned && a.startIndex <= matchOffset && matchOffset < a.endIndex
+      )?.id;
+      if (annotationId) {
+        setFocusRequest({ annotationId, requestedAt: Date.now() });
+      }
+    };
+
+    if (target !== session) confirmSessionSwitch(showResult);
+    else showResult();
+  };
+
+  // Keep library edits to the open session (title, project, tags) in the workspace copy
+  const handleSessionUpdated = (updated: FlushSession) => {
+    setSession(current => current.id === updated.id
+      ? { ...current, title: updated.title, projectId: updated.projectId, tags: updated.tags, updatedAt: updated.updatedAt }
+      : current
+    );
+  };
+
+  const handleFilterChange = (filter: SessionFilter) => {
+    setLibraryFilter(filter);
+    setActiveTab('library');
+  };
+
+  // New sessions start in the project being browsed, with that project's scale
+  const handleNewSession = () => {
+    const projectId = libraryFilter.projectId === UNFILED_PROJECT ? undefined : libraryFilter.projectId;
+    const projectScale = projects.find(p => p.id === projectId)?.scale;
+    confirmSessionSwitch(() => {
+      setSession(createSession(projectScale ? { projectId, scale: projectScale } : { projectId }));
+      setHasUnsavedChanges(false);
+      setActiveTab('annotation');
+    });
+  };
+
+  const handleSaveBeforeSwitch = () => {
+    const replace = pendingSwitch;
+    setPendingSwitch(null);
+    // A failed save keeps the session open; its toast explains why
+    handleSave(replace);
+  };
+
+  const handleDiscardBeforeSwitch = () => {
+    const replace = pendingSwitch;
+    setPendingSwitch(null);
+    replace?.();
+  };
 
   return (
-    <div className="min-h-screen bg-background">
-      {/* iPad-optimized header */}
-      <header className="border-b bg-card/50 backdrop-blur-sm">
-        <div className="container mx-auto px-8 py-6">
-          <div className="flex items-center justify-between mb-6">
-            <div className="flex items-center gap-4">
-              <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-primary to-primary-glow flex items-center justify-center">
-                <Zap className="w-6 h-6 text-white" />
+    <SidebarProvider>
+      <ProjectNavigator filter={libraryFilter} onFilterChange={handleFilterChange} />
+      <SidebarInset>
+        {/* iPad-optimized header */}
+        <header className="border-b bg-card/50 backdrop-blur-sm">
+          <div className="container mx-auto px-8 py-6">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-4">
+                <SidebarTrigger className="h-10 w-10" />
+                <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-primary to-primary-glow flex items-center justify-center">
+                  <Zap className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-3xl font-bold text-foreground">Flush</h1>
+                  <p className="text-lg text-muted-foreground">Clear the noise, focus on what matters</p>
+                </div>
               </div>
-              <div>
-                <h1 className="text-3xl font-bold text-foreground">Flush</h1>
-                <p className="text-lg text-muted-foreground">Clear the noise, focus on what matters</p>
+
+              <div className="flex items-center gap-3">
+                <div className="text-right">
+                  <p className="text-sm font-medium text-foreground">{session.title}</p>
+                  {projectName && (
+                    <p className="text-xs text-muted-foreground flex items-center justify-end gap-1">
+                      <Folder className="w-3 h-3" />
+                      {projectName}
+                    </p>
+                  )}
+                  {hasUnsavedChanges && (
+                    <Badge variant="outline" className="text-xs">Unsaved changes</Badge>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="lg"
+                  onClick={() => setSearchOpen(true)}
+                  className="gesture-zone h-12"
+                  title="Search saved sessions (Ctrl+K)"
+                >
+                  <Search className="w-5 h-5 mr-2" />
+                  Search
+                </Button>
+                <Button
+                  variant="outline"
+                  size="lg"
+                  onClick={handleShare}
+                  className="gesture-zone h-12"
+                >
+                  <Share2 className="w-5 h-5 mr-2" />
+                  Share
+                </Button>
+                <Button
+                  variant="outline"
+                  size="lg"
+                  onClick={handleExport}
+                  className="gesture-zone h-12"
+                >
+                  <FileDown className="w-5 h-5 mr-2" />
+                  Export
+                </Button>
+                <Button
+                  size="lg"
+                  onClick={() => handleSave()}
+                  disabled={saveSession.isPending}
+                  className="gesture-zone h-12"
+                >
+                  <Save className="w-5 h-5 mr-2" />
+                  Save
+                </Button>
               </div>
             </div>
-            
+
+            {/* Touch-friendly navigation */}
+            <nav className="flex gap-2">
+              <Button
+                variant={activeTab === 'annotation' ? "default" : "ghost"}
+                size="lg"
+                onClick={() => setActiveTab('annotation')}
+                className="gesture-zone h-16 px-8 flex-col gap-1"
+              >
+                <PenTool className="w-5 h-5" />
+                <span className="text-sm font-medium">Annotation Interface</span>
+              </Button>
+              <Button
+                variant={activeTab === 'library' ? "default" : "ghost"}
+                size="lg"
+                onClick={() => setActiveTab('library')}
+                className="gesture-zone h-16 px-8 flex-col gap-1"
+              >
+                <Library className="w-5 h-5" />
+                <span className="text-sm font-medium">Library</span>
+              </Button>
+              <Button
+                variant={activeTab === 'timeline' ? "default" : "ghost"}
+                size="lg"
+                onClick={() => setActiveTab('timeline')}
+                className="gesture-zone h-16 px-8 flex-col gap-1"
+              >
+                <History className="w-5 h-5" />
+                <span className="text-sm font-medium">Timeline</span>
+              </Button>
+              <Button
+                variant={activeTab === 'analytics' ? "default" : "ghost"}
+                size="lg"
+                onClick={() => setActiveTab('analytics')}
+                className="gesture-zone h-16 px-8 flex-col gap-1"
+              >
+                <BarChart3 className="w-5 h-5" />
+                <span className="text-sm font-medium">Analytics</span>
+              </Button>
+              <Button
+                variant={activeTab === 'adjudication' ? "default" : "ghost"}
+                size="lg"
+                onClick={() => setActiveTab('adjudication')}
+                className="gesture-zone h-16 px-8 flex-col gap-1"
+              >
+                <Gavel className="w-5 h-5" />
+                <span className="text-sm font-medium">Adjudication</span>
+              </Button>
+            </nav>
           </div>
+        </header>
 
-          {/* Touch-friendly navigation */}
-          <nav className="flex gap-2">
-            <Button
-              variant={activeTab === 'annotation' ? "default" : "ghost"}
-              size="lg"
-              onClick={() => setActiveTab('annotation')}
-              className="gesture-zone h-16 px-8 flex-col gap-1"
-            >
-              <PenTool className="w-5 h-5" />
-              <span className="text-sm font-medium">Annotation Interface</span>
-            </Button>
-            <Button
-              variant={activeTab === 'analytics' ? "default" : "ghost"}
-              size="lg"
-              onClick={() => setActiveTab('analytics')}
-              className="gesture-zone h-16 px-8 flex-col gap-1"
-            >
-              <BarChart3 className="w-5 h-5" />
-              <span className="text-sm font-medium">Analytics</span>
-            </Button>
-          </nav>
-        </div>
-      </header>
-
-      {/* Main content optimized for iPad */}
-      <main className="container mx-auto px-8 py-8">
-        <div className="max-w-6xl mx-auto">
-          {activeTab === 'annotation' ? (
-            <CombinedAnnotationInterface
-              content={content}
-              onContentChange={setContent}
-            />
-          ) : (
-            <Card className="p-8">
-              <h3 className="text-2xl font-semibold text-foreground mb-6">Annotation Analytics</h3>
-              <div className="text-center text-muted-foreground">
-                <BarChart3 className="w-16 h-16 mx-auto mb-4 opacity-50" />
-                <p>Switch to the Annotation Interface to create annotations and view analytics here.</p>
-              </div>
-            </Card>
-          )}
+        {/* Main content optimized for iPad */}
+        <div className="container mx-auto px-8 py-8">
+          <div className="max-w-6xl mx-auto">
+            {activeTab === 'annotation' ? (
+              <CombinedAnnotationInterface
+                key={session.id}
+                content={session.content}
+                originalPrompt={session.originalPrompt}
+                textAnnotations={session.textAnnotations}
+                canvasAnnotations={session.canvasAnnotations}
+                canvasInk={session.canvasInk}
+                scale={session.scale}
+                annotators={sessionAnnotators}
+                annotatorId={annotator.id}
+                hiddenAnnotatorIds={hiddenAnnotatorIds}
+                onToggleAnnotatorVisibility={toggleAnnotatorVisibility}
+                onAnnotatorChange={handleAnnotatorChange}
+                activeMode={activeMode}
+                onActiveModeChange={setActiveMode}
+                onContentChange={handleContentChange}
+                onTextAnnotationsChange={handleTextAnnotationsChange}
+                onCanvasAnnotationsChange={handleCanvasAnnotationsChange}
+                history={history}
+                focusRequest={focusRequest}
+                onEditScale={() => setIsEditingScale(true)}
+              />
+            ) : activeTab === 'library' ? (
+              <SessionLibrary
+                currentSessionId={session.id}
+                filter={libraryFilter}
+                onFilterChange={setLibraryFilter}
+                onOpenSession={handleOpenSession}
+                onSessionUpdated={handleSessionUpdated}
+                onNewSession={handleNewSession}
+              />
+            ) : activeTab === 'timeline' ? (
+              <SessionTimeline sessionId={session.id} scale={session.scale} />
+            ) : activeTab === 'adjudication' ? (
+              <AdjudicationView
+                content={session.content}
+                annotations={session.textAnnotations}
+                annotators={sessionAnnotators}
+                scale={session.scale}
+                onAnnotationsChange={handleGoldAnnotationsChange}
+              />
+            ) : (
+              <AnalyticsDashboard
+                annotations={session.textAnnotations}
+                scale={session.scale}
+                originalPrompt={session.originalPrompt}
+                originalResponse={session.content}
+                annotators={sessionAnnotators}
+              />
+            )}
+          </div>
         </div>
-      </main>
-    </div>
+      </SidebarInset>
+
+      <SearchDialog open={searchOpen} onOpenChange={setSearchOpen} onSelectResult={handleSearchResult} />
+
+      <ScaleEditorDialog
+        scale={isEditingScale ? session.scale : null}
+        title="Relevance scale"
+        description="Levels for this session's annotations. Saving updates the refined prompt, analytics and canvas palette."
+        usedLevelIds={[
+          ...session.textAnnotations.map(a => a.relevanceLevel),
+          ...session.canvasAnnotations.map(a => a.type)
+        ]}
+        onSave={handleScaleSave}
+        onClose={() => setIsEditingScale(false)}
+      />
+
+      <UnsavedChangesDialog
+        sessionTitle={pendingSwitch ? session.title : null}
+        onSave={handleSaveBeforeSwitch}
+        onDiscard={handleDiscardBeforeSwitch}
+        onCancel={() => setPendingSwitch(null)}
+      />
+
+      <DraftRecoveryDialog
+        draft={recoverableDraft}
+        onRestore={handleRestoreDraft}
+        onDiscard={handleDiscardDraft}
+      />
+    </SidebarProvider>
   );
 };
 
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Undo2, Redo2 } from 'lucide-react';
+import type { HistoryControls as HistoryControlsState } from '@/hooks/use-history';
+
+interface HistoryControlsProps {
+  history: HistoryControlsState;
+  className?: string;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPad|iPhone/.test(navigator.platform);
+const modifierKey = isMac ? '⌘' : 'Ctrl+';
+
+const HistoryControls: React.FC<HistoryControlsProps> = ({ history, className = '' }) => {
+  return (
+    <div className={`flex gap-1 ${className}`}>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={history.undo}
+        disabled={!history.canUndo}
+        className="h-8 w-8 p-0"
+        title={history.undoLabel ? `Undo ${history.undoLabel} (${modifierKey}Z)` : `Undo (${modifierKey}Z)`}
+      >
+        <Undo2 className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={history.redo}
+        disabled={!history.canRedo}
+        className="h-8 w-8 p-0"
+        title={history.redoLabel ? `Redo ${history.redoLabel} (⇧${modifierKey}Z)` : `Redo (⇧${modifierKey}Z)`}
+      >
+        <Redo2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default HistoryControls;
@@ -0,0 +1,35 @@
+import React, { useEffect, useRef } from 'react';
+import { useInkImage } from '@/hooks/use-ink-image';
+import { paintInkLayer } from '@/lib/ink-strokes';
+import { resolveLevel, type RelevanceScale } from '@/lib/relevance-scale';
+import type { CanvasAnnotation } from './InteractiveCanvas';
+
+interface InkLayerCanvasProps {
+  width: number;
+  height: number;
+  // Strokes of one annotator, drawn in order
+  annotations: CanvasAnnotation[];
+  // Legacy ink image of the layer
+  ink?: string;
+  scale: RelevanceScale;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Read-only rendering of an annotator's ink layer, used for layers other than the one being drawn on
+const InkLayerCanvas: React.FC<InkLayerCanvasProps> = ({ width, height, annotations, ink, scale, className, style }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const legacyInk = useInkImage(ink);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    paintInkLayer(ctx, legacyInk, annotations
+      .filter(annotation => annotation.stroke)
+      .map(annotation => ({ stroke: annotation.stroke, color: resolveLevel(scale, annotation.type).color })));
+  }, [annotations, legacyInk, scale, width, height]);
+
+  return <canvas ref={canvasRef} width={width} height={height} className={className} style={style} />;
+};
+
+export default InkLayerCanvas;
@@ -1,23 +1,103 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Heart, ThumbsUp, ThumbsDown, Minus, Eraser, Hand, RotateCcw, TrendingUp, Palette } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Eraser, Hand, Maximize, MousePointer2, RotateCcw, Palette, Trash2, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import {
+  getBottomLevel,
+  getMiddleLevel,
+  getTopLevel,
+  resolveLevel,
+  withAlpha,
+  type RelevanceLevel,
+  type RelevanceScale
+} from '@/lib/relevance-scale';
+import {
+  CANVAS_PAGE_HEIGHT,
+  CANVAS_PAGE_WIDTH,
+  hitTestStroke,
+  pageOf,
+  paintTextPage,
+  type StrokePoint,
+  type TextLayout
+} from '@/lib/canvas-text-layout';
+import {
+  createStroke,
+  eraseLegacyInk,
+  ERASER_WIDTH,
+  inkColor,
+  inkWidth,
+  paintInkLayer,
+  strokeTouchesPath,
+  type InkPoint,
+  type InkStroke
+} from '@/lib/ink-strokes';
+import { findShapeAt, pathNearBounds, strokeBounds, strokeHull, unionBounds, type Bounds } from '@/lib/stroke-geometry';
+import {
+  DEFAULT_VIEWPORT,
+  fitViewport,
+  panViewport,
+  viewportTransform,
+  WHEEL_ZOOM_SPEED,
+  zoomViewport,
+  type Viewport
+} from '@/lib/viewport';
+import { confidenceFromPressure } from '@/lib/confidence';
+import { snapRange } from '@/lib/selection-snap';
+import { annotatorIdOf, resolveAnnotator, UNASSIGNED_ANNOTATOR, type Annotator, type InkLayers } from '@/lib/annotators';
+import type { HistoryControls as HistoryControlsState } from '@/hooks/use-history';
+import { useInkImage } from '@/hooks/use-ink-image';
+import HistoryControls from './HistoryControls';
+import InkLayerCanvas from './InkLayerCanvas';
 
-export type DrawingTool = 'magic' | 'high' | 'medium' | 'low' | 'neutral' | 'eraser' | 'pan';
+// 'level' draws with the level picked in the palette (activeLevelId); 'select' picks a stroke
+export type DrawingTool = 'magic' | 'level' | 'eraser' | 'pan' | 'select';
 
 export interface CanvasAnnotation {
   id: string;
-  type: 'high' | 'medium' | 'low' | 'neutral';
+  // Id of a level in the session's relevance scale
+  type: string;
   pressure: number;
   timestamp: number;
-  bounds: { x: number; y: number; width: number; height: number };
+  // Box around the stroke's ink in canvas pixels; strokes from before hulls were recorded
+  // have a 50px square at the stroke's end instead
+  bounds: Bounds;
+  // Convex hull of the stroke's ink in canvas pixels; unset for those older strokes
+  hull?: StrokePoint[];
+  // Who drew the stroke; unset for strokes drawn before annotators were tracked
+  annotatorId?: string;
+  // Mean pen pressure over the stroke; unset for mouse and touch strokes
+  confidence?: number;
+  // The response text the stroke covers (whole words); unset when it misses the text
+  startIndex?: number;
+  endIndex?: number;
+  text?: string;
+  // Page of the response the stroke was drawn on; unset for strokes from before pagination,
+  // which are on the first page
+  page?: number;
+  // The stroke as drawn; unset for strokes from before ink was kept as vectors, whose pixels
+  // live in the annotator's legacy ink image
+  stroke?: InkStroke;
 }
 
+// Shared by layers with no strokes on the page, so their props stay equal between renders
+const NO_ANNOTATIONS: CanvasAnnotation[] = [];
+
 interface InteractiveCanvasProps {
   text: string;
-  onAnnotationsChange: (annotations: CanvasAnnotation[]) => void;
+  annotations: CanvasAnnotation[];
+  scale: RelevanceScale;
+  // Legacy ink images by annotator, drawn beneath their vector strokes
+  ink?: InkLayers;
+  // Reports the annotations together with annotatorId's legacy ink image, which only erasing
+  // and clearing change
+  onAnnotationsChange: (annotations: CanvasAnnotation[], ink?: string) => void;
+  history?: HistoryControlsState;
   className?: string;
+  // Who draws; other annotators' layers are shown beneath and cannot be drawn on or erased
+  annotatorId?: string;
+  annotators?: Annotator[];
+  hiddenAnnotatorIds?: string[];
 }
 
 interface Point {
@@ -51,22 +131,46 @@ interface DebugSnapshot {
 
 const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
   text,
+  annotations,
+  scale,
+  ink,
   onAnnotationsChange,
-  className = ''
+  history,
+  className = '',
+  annotatorId = UNASSIGNED_ANNOTATOR.id,
+  annotators = [],
+  hiddenAnnotatorIds = []
 }) => {
   const textCanvasRef = useRef<HTMLCanvasElement>(null);
   const annotationCanvasRef = useRef<HTMLCanvasElement>(null);
   const textContextRef = useRef<CanvasRenderingContext2D | null>(null);
   const annotationContextRef = useRef<CanvasRenderingContext2D | null>(null);
+  // Pen pressure samples of the stroke being drawn, averaged into its confidence
+  const strokePressuresRef = useRef<number[]>([]);
+  // Samples of the stroke being drawn; they become its vector and are hit-tested against the text layout
+  const strokePointsRef = useRef<InkPoint[]>([]);
+  const strokeStartRef = useRef(0);
+  // Layout of the page on show
+  const textLayoutRef = useRef<TextLayout | null>(null);
+  // The untransformed element the page is panned and zoomed within
+  const viewportRef = useRef<HTMLDivElement>(null);
+  // Touch points currently down, by pointer id; two of them pinch and pan instead of drawing
+  const touchesRef = useRef(new Map<number, StrokePoint>());
+  // Last pointer position of a pan tool drag, in client pixels
+  const panOriginRef = useRef<StrokePoint | null>(null);
   
   const [activeTool, setActiveTool] = useState<DrawingTool>('magic');
-  const [annotations, setAnnotations] = useState<CanvasAnnotation[]>([]);
+  const [activeLevelId, setActiveLevelId] = useState<string>(() => getTopLevel(scale).id);
   const [isPencilActive, setIsPencilActive] = useState(false);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [lastPos, setLastPos] = useState({ x: 0, y: 0 });
   const [currentPressure, setCurrentPressure] = useState(0.5);
   const [gesturePoints, setGesturePoints] = useState<Point[]>([]);
   const [magicToolMode, setMagicToolMode] = useState<'idle' | 'medium' | 'high' | 'low'>('idle');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+  // Long responses are split into pages the size of the canvas
+  const [page, setPage] = useState(0);
+  const [pageCount, setPageCount] = useState(1);
   const [debugEnabled, setDebugEnabled] = useState<boolean>(true);
   const [debugLogs, setDebugLogs] = useState<string[]>([]);
   const [debugSnapshot, setDebugSnapshot] = useState<DebugSnapshot>({ 
@@ -77,6 +181,55 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
   });
   const { toast } = useToast();
 
+  const layerInk = ink?.[annotatorId];
+  // Legacy ink predates pagination, so it belongs to the first page
+  const legacyInk = useInkImage(page === 0 ? layerInk : undefined);
+  const isLayerHidden = hiddenAnnotatorIds.includes(annotatorId);
+  const ownPageAnnotations = useMemo(
+    () => annotations.filter(a => annotatorIdOf(a) === annotatorId && pageOf(a) === page),
+    [annotations, annotatorId, page]
+  );
+  const otherLayers = Array.from(new Set([...Object.keys(ink ?? {}), ...annotations.filter(a => a.stroke).map(annotatorIdOf)]))
+    .filter(id => id !== annotatorId && !hiddenAnnotatorIds.includes(id));
+  // Strokes of each annotator on this page; kept stable between renders so other layers only
+  // repaint when their own strokes change, not on every pointer move
+  const pageLayers = useMemo(() => {
+    const layers = new Map<string, CanvasAnnotation[]>();
+    annotations.forEach(a => {
+      if (pageOf(a) !== page) return;
+      const id = annotatorIdOf(a);
+      layers.set(id, [...(layers.get(id) ?? []), a]);
+    });
+    return layers;
+  }, [annotations, page]);
+  const visibleAnnotations = annotations.filter(a => !hiddenAnnotatorIds.includes(annotatorIdOf(a)));
+  const pageAnnotations = visibleAnnotations.filter(a => pageOf(a) === page);
+  // Cleared implicitly when the stroke is erased, undone, hidden or paged away from
+  const selected = pageAnnotations.find(a => a.id === selectedId);
+  // Layers are outlined in their annotator's colour once more than one is visible
+  const showAnnotators = otherLayers.length > 0 && !isLayerHidden;
+  const layerFilter = (id: string) =>
+    showAnnotators ? `drop-shadow(0 0 2px ${resolveAnnotator(annotators, id).color})` : undefined;
+
+  // Fall back to the top level when the picked level is removed from the scale
+  useEffect(() => {
+    if (!scale.levels.some(level => level.id === activeLevelId)) {
+      setActiveLevelId(getTopLevel(scale).id);
+    }
+  }, [scale, activeLevelId]);
+
+  // Selection belongs to the Select tool
+  useEffect(() => {
+    if (activeTool !== 'select') setSelectedId(null);
+  }, [activeTool]);
+
+  // Magic Pencil gestures pick the top, middle or bottom level of the scale
+  const getMagicLevel = useCallback((mode: 'idle' | 'medium' | 'high' | 'low'): RelevanceLevel => {
+    if (mode === 'high') return getTopLevel(scale);
+    if (mode === 'low') return getBottomLevel(scale);
+    return getMiddleLevel(scale);
+  }, [scale]);
+
   // Initialize dual-layer canvas system
   useEffect(() => {
     const textCanvas = textCanvasRef.current;
@@ -84,13 +237,10 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     if (!textCanvas || !annotationCanvas) return;
 
     // Set canvas sizes for iPad
-    const width = 1024;
-    const height = 768;
-    
-    textCanvas.width = width;
-    textCanvas.height = height;
-    annotationCanvas.width = width;
-    annotationCanvas.height = height;
+    textCanvas.width = CANVAS_PAGE_WIDTH;
+    textCanvas.height = CANVAS_PAGE_HEIGHT;
+    annotationCanvas.width = CANVAS_PAGE_WIDTH;
+    annotationCanvas.height = CANVAS_PAGE_HEIGHT;
     
     const textContext = textCanvas.getContext('2d');
     const annotationContext = annotationCanvas.getContext('2d');
@@ -109,54 +259,54 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     
     textContextRef.current = textContext;
     annotationContextRef.current = annotationContext;
+  }, []);
 
-    // Draw initial text on text layer only
-    drawTextContent(textContext, text);
-  }, [text]);
-
-  const drawTextContent = (ctx: CanvasRenderingContext2D, textContent: string) => {
-    // Clear canvas with premium white background
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-    
-    // Configure premium text style
-    ctx.fillStyle = '#1a1a1a';
-    ctx.font = '18px -apple-system, BlinkMacSystemFont, "Inter", "Segoe UI", sans-serif';
-    ctx.textAlign = 'left';
-    ctx.textBaseline = 'top';
-
-    // Split text into lines and render with better typography
-    const lines = textContent.split('\n');
-    let y = 80;
-    const lineHeight = 28;
-    const maxWidth = 880;
-
-    lines.forEach(line => {
-      if (line.trim()) {
-        // Word wrap for long lines with better spacing
-        const words = line.split(' ');
-        let currentLine = '';
-        
-        words.forEach(word => {
-          const testLine = currentLine + word + ' ';
-          const metrics = ctx.measureText(testLine);
-          
-          if (metrics.width > maxWidth && currentLine !== '') {
-            ctx.fillText(currentLine, 80, y);
-            currentLine = word + ' ';
-            y += lineHeight;
-          } else {
-            currentLine = testLine;
-          }
-        });
-        
-        if (currentLine) {
-          ctx.fillText(currentLine, 80, y);
-          y += lineHeight;
-        }
-      }
-      y += lineHeight * 0.6; // Improved paragraph spacing
-    });
+  // Draw text on text layer only
+  useEffect(() => {
+    const textContext = textContextRef.current;
+    if (!textContext) return;
+    drawTextContent(textContext, text, page);
+  }, [text, page]);
+
+  // Stay on a page that exists when the response gets shorter
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [page, pageCount]);
+
+  const repaintLayer = useCallback(() => {
+    const ctx = annotationContextRef.current;
+    if (!ctx) return;
+    paintInkLayer(ctx, legacyInk, ownPageAnnotations
+      .filter(annotation => annotation.stroke)
+      .map(annotation => ({ stroke: annotation.stroke, color: resolveLevel(scale, annotation.type).color })));
+  }, [ownPageAnnotations, legacyInk, scale]);
+
+  // Redraw the annotator's layer from its strokes whenever they change (drawing, erasing, undo)
+  useEffect(() => {
+    repaintLayer();
+  }, [repaintLayer]);
+
+  // Ctrl+wheel zooms around the pointer (trackpad pinches arrive this way too). React wheel
+  // listeners are passive, so the page zoom can only be prevented from a native listener.
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey) return;
+      e.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const origin = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      setViewport(current => zoomViewport(current, Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), origin));
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const drawTextContent = (ctx: CanvasRenderingContext2D, textContent: string, pageIndex: number) => {
+    // The layout keeps each word's position so strokes can be mapped to the text they cover
+    const { layout, pageCount: count } = paintTextPage(ctx, textContent, pageIndex);
+    textLayoutRef.current = layout;
+    setPageCount(count);
   };
 
   // Debug snapshot update with comprehensive tracking
@@ -354,46 +504,35 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     return 'medium';                       // Light press → Medium (orange)
   };
 
-  const getDrawingColor = (tool: DrawingTool, pressure: number = 1, magicMode?: 'idle' | 'medium' | 'high' | 'low'): string => {
-    const intensity = Math.max(0.2, Math.min(1, pressure));
-    const alpha = 0.3 + (intensity * 0.5);
-    
+  const getDrawingColor = useCallback((tool: DrawingTool, pressure: number = 1, magicMode?: 'idle' | 'medium' | 'high' | 'low'): string => {
     // Handle Magic Pencil mode
     if (tool === 'magic') {
-      switch (magicMode) {
-        case 'idle':
-          return `rgba(100, 116, 139, ${alpha * 0.7})`; // Slate/gray while detecting
-        case 'high': 
-          return `rgba(239, 68, 68, ${alpha})`;  // Red
-        case 'low': 
-          return `rgba(59, 130, 246, ${alpha * 0.8})`;  // Blue
-        case 'medium':
-        default:
-          return `rgba(249, 115, 22, ${alpha * 0.9})`;  // Orange
+      if (magicMode === 'idle') {
+        const alpha = 0.3 + Math.max(0.2, Math.min(1, pressure)) * 0.5;
+        return `rgba(100, 116, 139, ${alpha * 0.7})`; // Slate/gray while detecting
       }
+      return inkColor(getMagicLevel(magicMode ?? 'medium').color, pressure);
     }
     
-    switch (tool) {
-      case 'high': 
-        return `rgba(239, 68, 68, ${alpha})`;  // Red
-      case 'medium': 
-        return `rgba(249, 115, 22, ${alpha * 0.9})`;  // Orange
-      case 'low': 
-        return `rgba(59, 130, 246, ${alpha * 0.8})`;  // Blue
-      case 'neutral': 
-        return `rgba(234, 179, 8, ${alpha * 0.7})`;  // Yellow
-      case 'eraser': 
-        return '#ffffff';
-      default: 
-        return `rgba(239, 68, 68, ${alpha})`;
+    if (tool === 'eraser') {
+      return '#ffffff';
     }
-  };
+    return inkColor(resolveLevel(scale, activeLevelId).color, pressure);
+  }, [scale, activeLevelId, getMagicLevel]);
 
-  const getStrokeWidth = (pressure: number, tool: DrawingTool): number => {
-    const baseWidth = tool === 'eraser' ? 24 : 16;
-    const pressureMultiplier = Math.max(0.6, Math.min(2.5, pressure));
-    return Math.max(6, Math.min(40, baseWidth * pressureMultiplier));
-  };
+  // Matches the width strokes are redrawn with once they are stored
+  const getStrokeWidth = (pressure: number, tool: DrawingTool): number =>
+    tool === 'eraser' ? ERASER_WIDTH : inkWidth(pressure);
+
+  // A pointer sample in canvas pixels, timed from the start of the stroke
+  const samplePoint = (e: React.PointerEvent<HTMLCanvasElement>, x: number, y: number): InkPoint => ({
+    x,
+    y,
+    pressure: e.pressure || 0.5,
+    tiltX: e.tiltX ?? 0,
+    tiltY: e.tiltY ?? 0,
+    t: e.timeStamp - strokeStartRef.current
+  });
 
   const startDrawing = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
     if (activeTool === 'pan') return;
@@ -402,16 +541,22 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     const ctx = annotationContextRef.current;
     if (!annotationCanvas || !ctx) return;
 
-    setIsDrawing(true);
-    
     const rect = annotationCanvas.getBoundingClientRect();
     const scaleX = annotationCanvas.width / rect.width;
     const scaleY = annotationCanvas.height / rect.height;
     
     const x = (e.clientX - rect.left) * scaleX;
     const y = (e.clientY - rect.top) * scaleY;
+
+    if (activeTool === 'select') {
+      setSelectedId(findShapeAt(pageAnnotations, { x, y })?.id ?? null);
+      return;
+    }
+
+    setIsDrawing(true);
     
-    setLastPos({ x, y });
+    strokeStartRef.current = e.timeStamp;
+    strokePointsRef.current = [samplePoint(e, x, y)];
 
     // Detect Apple Pencil and handle eraser
     if (e.pointerType === 'pen') {
@@ -426,6 +571,7 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     // Get pressure and determine tool
     const pressure = e.pressure || 0.5;
     setCurrentPressure(pressure);
+    strokePressuresRef.current = e.pointerType === 'pen' ? [e.pressure] : [];
     
     // Handle Magic Pencil mode — start in idle (gray) until a gesture is recognized
     let effectiveTool = activeTool;
@@ -439,7 +585,7 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     setGesturePoints([{ x, y, time: Date.now() }]);
     
     const color = getDrawingColor(effectiveTool, pressure, currentMagicMode);
-    const strokeWidth = getStrokeWidth(pressure, effectiveTool === 'magic' ? 'medium' : effectiveTool);
+    const strokeWidth = getStrokeWidth(pressure, effectiveTool === 'magic' ? 'level' : effectiveTool);
 
     // Configure drawing style for annotation layer only
     if (effectiveTool === 'eraser') {
@@ -467,7 +613,7 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     
     ctx.beginPath();
     ctx.moveTo(x, y);
-  }, [activeTool, magicToolMode]);
+  }, [activeTool, magicToolMode, pageAnnotations, getDrawingColor]);
 
   const draw = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
     if (!isDrawing || activeTool === 'pan') return;
@@ -486,6 +632,8 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     // Update drawing properties based on pressure
     const pressure = e.pressure || 0.5;
     setCurrentPressure(pressure);
+    if (e.pointerType === 'pen') strokePressuresRef.current.push(e.pressure);
+    strokePointsRef.current.push(samplePoint(e, x, y));
     
     // Update comprehensive debug snapshot with current drawing state
     const canvas = annotationCanvas;
@@ -516,10 +664,10 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
         gestureDetected = true;
         detectedColor = getDrawingColor('magic', pressure, 'low');
         gestureType = 'ZIG-ZAG';
-        addDebugLog('✅ 🔵 ZIG-ZAG DETECTED - Switching to LOW relevance (blue)');
+        addDebugLog(`✅ ZIG-ZAG DETECTED - Switching to ${getMagicLevel('low').label} (${getMagicLevel('low').color})`);
         toast({
           title: "Zig-Zag Detected!",
-          description: "Switched to Low relevance mode (blue)",
+          description: `Switched to ${getMagicLevel('low').emoji} ${getMagicLevel('low').label}`,
           duration: 1500,
         });
       } else if (detectCircleGesture(updatedPoints)) {
@@ -527,10 +675,10 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
         gestureDetected = true;
         detectedColor = getDrawingColor('magic', pressure, 'high');
         gestureType = 'CIRCLE';
-        addDebugLog('✅ 🔴 CIRCLE DETECTED - Switching to HIGH relevance (red)');
+        addDebugLog(`✅ CIRCLE DETECTED - Switching to ${getMagicLevel('high').label} (${getMagicLevel('high').color})`);
         toast({
           title: "Circle Detected!",
-          description: "Switched to High relevance mode (red)",
+          description: `Switched to ${getMagicLevel('high').emoji} ${getMagicLevel('high').label}`,
           duration: 1500,
         });
       } else if (detectSquareGesture(updatedPoints)) {
@@ -538,10 +686,10 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
         gestureDetected = true;
         detectedColor = getDrawingColor('magic', pressure, 'medium');
         gestureType = 'SQUARE';
-        addDebugLog('✅ 🟠 SQUARE DETECTED - Switching to MEDIUM relevance (orange)');
+        addDebugLog(`✅ SQUARE DETECTED - Switching to ${getMagicLevel('medium').label} (${getMagicLevel('medium').color})`);
         toast({
           title: "Square Detected!",
-          description: "Switched to Medium relevance mode (orange)",
+          description: `Switched to ${getMagicLevel('medium').emoji} ${getMagicLevel('medium').label}`,
           duration: 1500,
         });
       } else {
@@ -571,7 +719,7 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     // Only set color if gesture was NOT just detected to prevent override
     if (!gestureDetected) {
       const color = getDrawingColor(effectiveTool, pressure, currentMagicMode);
-      const strokeWidth = getStrokeWidth(pressure, effectiveTool === 'magic' ? 'medium' : effectiveTool);
+      const strokeWidth = getStrokeWidth(pressure, effectiveTool === 'magic' ? 'level' : effectiveTool);
       
       ctx.strokeStyle = color;
       ctx.lineWidth = strokeWidth;
@@ -588,8 +736,6 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     ctx.stroke();
     ctx.beginPath();
     ctx.moveTo(x, y);
-    
-    setLastPos({ x, y });
 
     // Update debug snapshot with current state
     updateDebugSnapshot({
@@ -604,7 +750,7 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
       canvasH: canvas.height,
       mode: magicToolMode
     });
-  }, [isDrawing, activeTool, magicToolMode, gesturePoints, detectZigZagGesture, detectCircleGesture, detectSquareGesture, addDebugLog, updateDebugSnapshot, toast]);
+  }, [isDrawing, activeTool, magicToolMode, gesturePoints, detectZigZagGesture, detectCircleGesture, detectSquareGesture, addDebugLog, updateDebugSnapshot, toast, getDrawingColor, getMagicLevel]);
 
   const stopDrawing = useCallback(() => {
     if (!isDrawing) return;
@@ -618,41 +764,140 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     
     // Clear gesture tracking
     setGesturePoints([]);
-    
-    // Create annotation record if drawing was substantial
-    if (activeTool !== 'eraser' && activeTool !== 'pan') {
-      const annotation: CanvasAnnotation = {
-        id: Date.now().toString(),
-        type: activeTool === 'magic' ? 
-          (magicToolMode === 'high' ? 'high' : magicToolMode === 'low' ? 'low' : 'medium') :
-          activeTool as 'high' | 'medium' | 'low' | 'neutral',
-        pressure: currentPressure,
-        timestamp: Date.now(),
-        bounds: { x: lastPos.x, y: lastPos.y, width: 50, height: 50 }
-      };
-      
-      setAnnotations(prev => {
-        const updated = [...prev, annotation];
-        onAnnotationsChange(updated);
-        return updated;
-      });
-    }
-  }, [isDrawing, activeTool, magicToolMode, currentPressure, lastPos, onAnnotationsChange]);
 
-  const clearCanvas = () => {
-    const ctx = annotationContextRef.current;
-    if (ctx) {
-      ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    const points = strokePointsRef.current;
+
+    // The eraser removes the annotator's strokes it passes over and rubs out legacy ink;
+    // the layer is then redrawn from what is left
+    if (activeTool === 'eraser') {
+      const remaining = annotations.filter(a =>
+        annotatorIdOf(a) !== annotatorId ||
+        pageOf(a) !== page ||
+        !a.stroke ||
+        // Strokes without a hull kept the old 50px bounds square, which need not cover their ink
+        (a.hull && !pathNearBounds(points, a.bounds, ERASER_WIDTH / 2)) ||
+        !strokeTouchesPath(a.stroke, points, ERASER_WIDTH / 2)
+      );
+      const erasedInk = legacyInk ? eraseLegacyInk(legacyInk, points, CANVAS_PAGE_WIDTH, CANVAS_PAGE_HEIGHT) : null;
+      // A pass that removed nothing is not an edit
+      if (remaining.length < annotations.length || erasedInk) onAnnotationsChange(remaining, erasedInk ?? layerInk);
+      return;
     }
-    setAnnotations([]);
+
+    // The text under the ink, widened to whole words as text selections are
+    const hit = textLayoutRef.current ? hitTestStroke(textLayoutRef.current, points, inkWidth(currentPressure) / 2) : null;
+    const covered = hit && snapRange(text, hit, 'word');
+    const stroke = createStroke(activeTool === 'magic' ? 'magic' : 'level', points);
+    const annotation: CanvasAnnotation = {
+      id: Date.now().toString(),
+      type: activeTool === 'magic' ? getMagicLevel(magicToolMode).id : activeLevelId,
+      pressure: currentPressure,
+      timestamp: Date.now(),
+      bounds: strokeBounds(stroke),
+      hull: strokeHull(stroke),
+      annotatorId,
+      confidence: confidenceFromPressure(strokePressuresRef.current),
+      ...(covered && { startIndex: covered.start, endIndex: covered.end, text: text.slice(covered.start, covered.end) }),
+      page,
+      stroke
+    };
+
+    onAnnotationsChange([...annotations, annotation], layerInk);
+  }, [isDrawing, activeTool, magicToolMode, activeLevelId, currentPressure, annotations, annotatorId, text, page, legacyInk, layerInk, onAnnotationsChange, getMagicLevel]);
+
+  // Client coordinates relative to the viewport element, which the transform is applied within
+  const toViewPoint = (e: React.PointerEvent<HTMLCanvasElement>): StrokePoint => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    return { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) };
+  };
+
+  // Abandon the stroke in progress, e.g. when a second finger turns it into a pinch
+  const cancelStroke = () => {
+    if (!isDrawing) return;
+    setIsDrawing(false);
     setGesturePoints([]);
-    onAnnotationsChange([]);
+    strokePointsRef.current = [];
+    repaintLayer();
+  };
+
+  const pinchOf = (touches: Map<number, StrokePoint>) => {
+    const [a, b] = Array.from(touches.values());
+    return { mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, distance: Math.hypot(b.x - a.x, b.y - a.y) };
   };
 
-  const colors = {
-    high: 'rgba(239, 68, 68, 0.8)',
-    medium: 'rgba(249, 115, 22, 0.8)', 
-    low: 'rgba(59, 130, 246, 0.8)'
+  // Two touches pinch-zoom and pan with any tool; the pan tool also drags with one pointer.
+  // Pointer-to-canvas mapping uses the transformed canvas rect, so drawing stays exact at any zoom.
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === 'touch') {
+      touchesRef.current.set(e.pointerId, toViewPoint(e));
+      if (touchesRef.current.size >= 2) {
+        cancelStroke();
+        panOriginRef.current = null;
+        return;
+      }
+    }
+    if (activeTool === 'pan') {
+      panOriginRef.current = { x: e.clientX, y: e.clientY };
+      return;
+    }
+    startDrawing(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const touches = touchesRef.current;
+    if (touches.has(e.pointerId)) {
+      if (touches.size >= 2) {
+        const before = pinchOf(touches);
+        touches.set(e.pointerId, toViewPoint(e));
+        const after = pinchOf(touches);
+        const factor = before.distance > 0 ? after.distance / before.distance : 1;
+        setViewport(current =>
+          zoomViewport(panViewport(current, after.mid.x - before.mid.x, after.mid.y - before.mid.y), factor, after.mid)
+        );
+        return;
+      }
+      touches.set(e.pointerId, toViewPoint(e));
+    }
+    const panOrigin = panOriginRef.current;
+    if (panOrigin) {
+      panOriginRef.current = { x: e.clientX, y: e.clientY };
+      setViewport(current => panViewport(current, e.clientX - panOrigin.x, e.clientY - panOrigin.y));
+      return;
+    }
+    draw(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    touchesRef.current.delete(e.pointerId);
+    panOriginRef.current = null;
+    stopDrawing();
+  };
+
+  // Fit the response text and the visible ink into the view
+  const zoomToFit = () => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const rect = element.getBoundingClientRect();
+    const content = unionBounds([
+      ...(textLayoutRef.current?.words ?? []),
+      ...pageAnnotations.filter(a => a.hull).map(a => a.bounds)
+    ]);
+    setViewport(content ? fitViewport(content, rect, rect.width / CANVAS_PAGE_WIDTH) : DEFAULT_VIEWPORT);
+  };
+
+  const deleteSelected = () => {
+    if (!selected) return;
+    setSelectedId(null);
+    onAnnotationsChange(annotations.filter(a => a.id !== selected.id), layerInk);
+  };
+
+  const clearCanvas = () => {
+    setGesturePoints([]);
+    // Only the annotator's own ink on this page is cleared; legacy ink is on the first page
+    onAnnotationsChange(
+      annotations.filter(a => annotatorIdOf(a) !== annotatorId || pageOf(a) !== page),
+      page === 0 ? undefined : layerInk
+    );
   };
 
   return (
@@ -740,73 +985,41 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
             <Badge 
               variant="secondary" 
               className={`text-xs transition-all duration-300 ${
-                magicToolMode === 'high' ? 'bg-red-100 text-red-800 border-red-200' :
-                magicToolMode === 'medium' ? 'bg-orange-100 text-orange-800 border-orange-200' :
-                magicToolMode === 'low' ? 'bg-blue-100 text-blue-800 border-blue-200' :
-                'bg-gray-100 text-gray-600 border-gray-200'
+                magicToolMode === 'idle' ? 'bg-gray-100 text-gray-600 border-gray-200' : ''
               }`}
+              style={magicToolMode === 'idle' ? undefined : {
+                backgroundColor: withAlpha(getMagicLevel(magicToolMode).color, 0.15),
+                borderColor: withAlpha(getMagicLevel(magicToolMode).color, 0.3),
+                color: getMagicLevel(magicToolMode).color
+              }}
             >
-              {magicToolMode === 'idle' ? 'Detecting...' : `${magicToolMode} relevance`}
+              {magicToolMode === 'idle'
+                ? 'Detecting...'
+                : `${getMagicLevel(magicToolMode).emoji} ${getMagicLevel(magicToolMode).label}`}
             </Badge>
           )}
         </div>
 
-        {/* Standard tools */}
-        <Button
-          onClick={() => setActiveTool('high')}
-          variant={activeTool === 'high' ? 'default' : 'outline'}
-          size="sm"
-          className={`transition-all duration-300 ${
-            activeTool === 'high' 
-              ? 'bg-red-500 text-white shadow-lg hover:bg-red-600 scale-105' 
-              : 'hover:scale-105'
-          }`}
-        >
-          <Heart className="h-4 w-4" />
-          High
-        </Button>
-        
-        <Button
-          onClick={() => setActiveTool('medium')}
-          variant={activeTool === 'medium' ? 'default' : 'outline'}
-          size="sm"
-          className={`transition-all duration-300 ${
-            activeTool === 'medium' 
-              ? 'bg-orange-500 text-white shadow-lg hover:bg-orange-600 scale-105' 
-              : 'hover:scale-105'
-          }`}
-        >
-          <TrendingUp className="h-4 w-4" />
-          Medium
-        </Button>
-        
-        <Button
-          onClick={() => setActiveTool('low')}
-          variant={activeTool === 'low' ? 'default' : 'outline'}
-          size="sm"
-          className={`transition-all duration-300 ${
-            activeTool === 'low' 
-              ? 'bg-blue-500 text-white shadow-lg hover:bg-blue-600 scale-105' 
-              : 'hover:scale-105'
-          }`}
-        >
-          <ThumbsDown className="h-4 w-4" />
-          Low
-        </Button>
-        
-        <Button
-          onClick={() => setActiveTool('neutral')}
-          variant={activeTool === 'neutral' ? 'default' : 'outline'}
-          size="sm"
-          className={`transition-all duration-300 ${
-            activeTool === 'neutral' 
-              ? 'bg-yellow-500 text-white shadow-lg hover:bg-yellow-600 scale-105' 
-              : 'hover:scale-105'
-          }`}
-        >
-          <Minus className="h-4 w-4" />
-          Neutral
-        </Button>
+        {/* Scale levels */}
+        {scale.levels.map(level => {
+          const isActive = activeTool === 'level' && activeLevelId === level.id;
+          return (
+            <Button
+              key={level.id}
+              onClick={() => {
+                setActiveTool('level');
+                setActiveLevelId(level.id);
+              }}
+              variant={isActive ? 'default' : 'outline'}
+              size="sm"
+              className={`transition-all duration-300 ${isActive ? 'text-white shadow-lg scale-105' : 'hover:scale-105'}`}
+              style={isActive ? { backgroundColor: level.color } : undefined}
+            >
+              <span>{level.emoji}</span>
+              {level.label}
+            </Button>
+          );
+        })}
         
         <Button
           onClick={() => setActiveTool('eraser')}
@@ -836,7 +1049,28 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
           Pan
         </Button>
 
+        <Button
+          onClick={() => setActiveTool('select')}
+          variant={activeTool === 'select' ? 'default' : 'outline'}
+          size="sm"
+          className={`transition-all duration-300 ${activeTool === 'select' ? 'shadow-lg scale-105' : 'hover:scale-105'}`}
+        >
+          <MousePointer2 className="h-4 w-4" />
+          Select
+        </Button>
+
         <div className="ml-auto flex gap-2">
+          <Button
+            onClick={zoomToFit}
+            variant="outline"
+            size="sm"
+            className="hover:scale-105 transition-all duration-300 tabular-nums"
+            title="Zoom to fit (pinch or Ctrl+scroll to zoom)"
+          >
+            <Maximize className="h-4 w-4" />
+            {Math.round(viewport.zoom * 100)}%
+          </Button>
+          {history && <HistoryControls history={history} />}
           <Button onClick={clearCanvas} variant="outline" size="sm" className="hover:scale-105 transition-all duration-300">
             <RotateCcw className="h-4 w-4" />
             Clear
@@ -852,96 +1086,163 @@ const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
         </div>
       </div>
 
+      {/* Selected stroke */}
+      {selected && (
+        <div className="flex flex-wrap items-center gap-3 mb-4 px-4 py-3 rounded-xl border bg-card text-sm">
+          <Badge
+            variant="outline"
+            style={{ borderColor: resolveLevel(scale, selected.type).color, color: resolveLevel(scale, selected.type).color }}
+          >
+            {resolveLevel(scale, selected.type).emoji} {resolveLevel(scale, selected.type).label}
+          </Badge>
+          <span className="flex-1 min-w-0 truncate text-muted-foreground">
+            {selected.text ? `"${selected.text}"` : 'Beside the text'}
+          </span>
+          {showAnnotators && (
+            <span className="text-xs text-muted-foreground">{resolveAnnotator(annotators, annotatorIdOf(selected)).name}</span>
+          )}
+          <span className="text-xs text-muted-foreground tabular-nums">
+            {Math.round(selected.bounds.width)}×{Math.round(selected.bounds.height)} px
+          </span>
+          {annotatorIdOf(selected) === annotatorId && (
+            <Button variant="ghost" size="sm" onClick={deleteSelected} title="Delete stroke">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => setSelectedId(null)} title="Clear selection">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       {/* Canvas container */}
       <div className="relative w-full bg-white rounded-2xl shadow-xl overflow-hidden border-2 border-gray-100">
-        <div className="relative aspect-[4/3] w-full max-w-full">
-          <div className="absolute inset-0 flex items-center justify-center">
+        <div ref={viewportRef} className="relative aspect-[4/3] w-full max-w-full">
+          <div
+            className="absolute inset-0 flex items-center justify-center"
+            style={{ transform: viewportTransform(viewport), transformOrigin: '0 0' }}
+          >
             {/* Text canvas (background layer) */}
             <canvas
               ref={textCanvasRef}
               className="absolute inset-0 w-full h-auto pointer-events-none"
               style={{ maxWidth: '100%', height: 'auto' }}
             />
+            {/* Other annotators' ink, beneath the layer being drawn on */}
+            {otherLayers.map(id => (
+              <InkLayerCanvas
+                key={id}
+                width={CANVAS_PAGE_WIDTH}
+                height={CANVAS_PAGE_HEIGHT}
+                annotations={pageLayers.get(id) ?? NO_ANNOTATIONS}
+                ink={page === 0 ? ink?.[id] : undefined}
+                scale={scale}
+                className="absolute inset-0 w-full h-auto pointer-events-none"
+                style={{ maxWidth: '100%', height: 'auto', filter: layerFilter(id) }}
+              />
+            ))}
             {/* Annotation canvas (overlay layer) */}
             <canvas
               ref={annotationCanvasRef}
-              className="relative w-full touch-action-none cursor-crosshair"
-              style={{ maxWidth: '100%', height: 'auto' }}
-              onPointerDown={startDrawing}
-              onPointerMove={draw}
-              onPointerUp={stopDrawing}
-              onPointerLeave={stopDrawing}
+              className={`relative w-full touch-action-none ${
+                activeTool === 'select' ? 'cursor-pointer' : activeTool === 'pan' ? 'cursor-grab' : 'cursor-crosshair'
+              }`}
+              style={{
+                maxWidth: '100%',
+                height: 'auto',
+                visibility: isLayerHidden ? 'hidden' : undefined,
+                filter: layerFilter(annotatorId)
+              }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+              onPointerCancel={handlePointerUp}
             />
+            {/* Outline of the selected stroke: its hull inside its bounds */}
+            {selected?.hull && (
+              <svg
+                viewBox={`0 0 ${CANVAS_PAGE_WIDTH} ${CANVAS_PAGE_HEIGHT}`}
+                className="absolute inset-0 w-full h-full pointer-events-none"
+              >
+                <rect
+                  x={selected.bounds.x}
+                  y={selected.bounds.y}
+                  width={selected.bounds.width}
+                  height={selected.bounds.height}
+                  fill="none"
+                  stroke="#64748b"
+                  strokeWidth={1.5}
+                  strokeDasharray="6 4"
+                />
+                <polygon
+                  points={selected.hull.map(point => `${point.x},${point.y}`).join(' ')}
+                  fill={withAlpha(resolveLevel(scale, selected.type).color, 0.12)}
+                  stroke={resolveLevel(scale, selected.type).color}
+                  strokeWidth={2}
+                />
+              </svg>
+            )}
           </div>
         </div>
       </div>
+
+      {/* Page navigation */}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3 my-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(current => current - 1)}
+            disabled={page === 0}
+            title="Previous page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground tabular-nums">
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(current => current + 1)}
+            disabled={page >= pageCount - 1}
+            title="Next page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
       
       {/* Premium analytics cards */}
-      {annotations.length > 0 && (
+      {visibleAnnotations.length > 0 && (
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
-          <div className="relative group">
-            <div className="absolute inset-0 bg-gradient-to-br from-annotation-high/20 to-annotation-high/10 rounded-2xl transition-all duration-300"></div>
-            <div className="relative bg-card/80 border border-annotation-high/20 rounded-2xl p-6 text-center hover:scale-105 transition-all duration-300">
-              <div className="text-3xl font-bold text-annotation-high mb-2">
-                {annotations.filter(a => a.type === 'high').length}
-              </div>
-              <div className="text-sm font-medium text-muted-foreground">High Relevance</div>
-              <div className="w-full h-2 bg-annotation-high/20 rounded-full mt-3">
-                <div 
-                  className="h-2 bg-annotation-high rounded-full transition-all duration-500"
-                  style={{ width: `${(annotations.filter(a => a.type === 'high').length / annotations.length) * 100}%` }}
-                ></div>
-              </div>
-            </div>
-          </div>
-          
-          <div className="relative group">
-            <div className="absolute inset-0 bg-gradient-to-br from-annotation-medium/20 to-annotation-medium/10 rounded-2xl transition-all duration-300"></div>
-            <div className="relative bg-card/80 border border-annotation-medium/20 rounded-2xl p-6 text-center hover:scale-105 transition-all duration-300">
-              <div className="text-3xl font-bold text-annotation-medium mb-2">
-                {annotations.filter(a => a.type === 'medium').length}
-              </div>
-              <div className="text-sm font-medium text-muted-foreground">Medium Relevance</div>
-              <div className="w-full h-2 bg-annotation-medium/20 rounded-full mt-3">
-                <div 
-                  className="h-2 bg-annotation-medium rounded-full transition-all duration-500"
-                  style={{ width: `${(annotations.filter(a => a.type === 'medium').length / annotations.length) * 100}%` }}
-                ></div>
-              </div>
-            </div>
-          </div>
-          
-          <div className="relative group">
-            <div className="absolute inset-0 bg-gradient-to-br from-annotation-low/20 to-annotation-low/10 rounded-2xl transition-all duration-300"></div>
-            <div className="relative bg-card/80 border border-annotation-low/20 rounded-2xl p-6 text-center hover:scale-105 transition-all duration-300">
-              <div className="text-3xl font-bold text-annotation-low mb-2">
-                {annotations.filter(a => a.type === 'low').length}
-              </div>
-              <div className="text-sm font-medium text-muted-foreground">Low Relevance</div>
-              <div className="w-full h-2 bg-annotation-low/20 rounded-full mt-3">
-                <div 
-                  className="h-2 bg-annotation-low rounded-full transition-all duration-500"
-                  style={{ width: `${(annotations.filter(a => a.type === 'low').length / annotations.length) * 100}%` }}
-                ></div>
-              </div>
-            </div>
-          </div>
-          
-          <div className="relative group">
-            <div className="absolute inset-0 bg-gradient-to-br from-annotation-neutral/20 to-annotation-neutral/10 rounded-2xl transition-all duration-300"></div>
-            <div className="relative bg-card/80 border border-annotation-neutral/20 rounded-2xl p-6 text-center hover:scale-105 transition-all duration-300">
-              <div className="text-3xl font-bold text-annotation-neutral mb-2">
-                {annotations.filter(a => a.type === 'neutral').length}
-              </div>
-              <div className="text-sm font-medium text-muted-foreground">Neutral Content</div>
-              <div className="w-full h-2 bg-annotation-neutral/20 rounded-full mt-3">
-                <div 
-                  className="h-2 bg-annotation-neutral rounded-full transition-all duration-500"
-                  style={{ width: `${(annotations.filter(a => a.type === 'neutral').length / annotations.length) * 100}%` }}
+          {scale.levels.map(level => {
+            const count = visibleAnnotations.filter(a => a.type === level.id).length;
+            return (
+              <div key={level.id} className="relative group">
+                <div
+                  className="absolute inset-0 rounded-2xl transition-all duration-300"
+                  style={{ background: `linear-gradient(to bottom right, ${withAlpha(level.color, 0.2)}, ${withAlpha(level.color, 0.1)})` }}
                 ></div>
+                <div
+                  className="relative bg-card/80 border rounded-2xl p-6 text-center hover:scale-105 transition-all duration-300"
+                  style={{ borderColor: withAlpha(level.color, 0.2) }}
+                >
+                  <div className="text-3xl font-bold mb-2" style={{ color: level.color }}>
+                    {count}
+                  </div>
+                  <div className="text-sm font-medium text-muted-foreground">{level.emoji} {level.label}</div>
+                  <div className="w-full h-2 rounded-full mt-3" style={{ backgroundColor: withAlpha(level.color, 0.2) }}>
+                    <div 
+                      className="h-2 rounded-full transition-all duration-500"
+                      style={{ width: `${(count / visibleAnnotations.length) * 100}%`, backgroundColor: level.color }}
+                    ></div>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
+            );
+          })}
         </div>
       )}
     </div>
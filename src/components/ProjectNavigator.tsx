@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Folder, FolderOpen, Inbox, Library, MoreHorizontal, Pencil, Plus, SlidersHorizontal, Tag, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSessions } from '@/hooks/use-sessions';
+import { useCreateProject, useDeleteProject, useProjects, useRenameProject, useSetProjectScale } from '@/hooks/use-projects';
+import { countTags, UNFILED_PROJECT, type SessionFilter } from '@/lib/session-store';
+import type { FlushProject } from '@/lib/project-store';
+import { DEFAULT_SCALE, type RelevanceScale } from '@/lib/relevance-scale';
+import ScaleEditorDialog from './ScaleEditorDialog';
+
+interface ProjectNavigatorProps {
+  filter: SessionFilter;
+  onFilterChange: (filter: SessionFilter) => void;
+}
+
+const ProjectNavigator: React.FC<ProjectNavigatorProps> = ({ filter, onFilterChange }) => {
+  const { data: sessions = [] } = useSessions();
+  const { data: projects = [] } = useProjects();
+  const createProject = useCreateProject();
+  const renameProject = useRenameProject();
+  const deleteProject = useDeleteProject();
+  const setProjectScale = useSetProjectScale();
+  const [isCreating, setIsCreating] = useState(false);
+  const [newProjectName, setNewProjectName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [scaleProject, setScaleProject] = useState<FlushProject | null>(null);
+  const { toast } = useToast();
+
+  const tagCounts = countTags(sessions);
+  const countInProject = (projectId: string) => sessions.filter(s => s.projectId === projectId).length;
+  const unfiledCount = sessions.filter(s => !s.projectId).length;
+
+  const submitNewProject = () => {
+    const name = newProjectName.trim();
+    setIsCreating(false);
+    setNewProjectName('');
+    if (!name) return;
+    createProject.mutate(name, {
+      onSuccess: (project) => onFilterChange({ ...filter, projectId: project.id })
+    });
+  };
+
+  const submitRename = () => {
+    if (!renamingId) return;
+    renameProject.mutate({ id: renamingId, name: renameText });
+    setRenamingId(null);
+    setRenameText('');
+  };
+
+  const handleDelete = (project: FlushProject) => {
+    deleteProject.mutate(project.id, {
+      onSuccess: () => {
+        if (filter.projectId === project.id) {
+          onFilterChange({ ...filter, projectId: undefined });
+        }
+        toast({
+          title: "Project deleted",
+          description: `Sessions in "${project.name}" are now unfiled`,
+        });
+      }
+    });
+  };
+
+  const handleScaleSave = (scale: RelevanceScale) => {
+    if (!scaleProject) return;
+    const project = scaleProject;
+    setScaleProject(null);
+    setProjectScale.mutate({ id: project.id, scale }, {
+      onSuccess: () => toast({
+        title: "Project scale updated",
+        description: `New sessions in "${project.name}" will use ${scale.name}`,
+      })
+    });
+  };
+
+  const selectProject = (projectId?: string) => onFilterChange({ ...filter, projectId });
+
+  const selectTag = (tag: string) => onFilterChange({ ...filter, tag: filter.tag === tag ? undefined : tag });
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="px-4 py-6">
+        <div className="flex items-center gap-2">
+          <Library className="w-5 h-5" />
+          <span className="text-lg font-semibold">Library</span>
+        </div>
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Projects</SidebarGroupLabel>
+          <SidebarGroupAction title="New project" onClick={() => setIsCreating(true)}>
+            <Plus />
+            <span className="sr-only">New project</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton isActive={!filter.projectId} onClick={() => selectProject(undefined)}>
+                  <Library />
+                  <span>All sessions</span>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{sessions.length}</SidebarMenuBadge>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton isActive={filter.projectId === UNFILED_PROJECT} onClick={() => selectProject(UNFILED_PROJECT)}>
+                  <Inbox />
+                  <span>Unfiled</span>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{unfiledCount}</SidebarMenuBadge>
+              </SidebarMenuItem>
+
+              {projects.map((project) => (
+                <SidebarMenuItem key={project.id}>
+                  {renamingId === project.id ? (
+                    <SidebarInput
+                      value={renameText}
+                      onChange={(e) => setRenameText(e.target.value)}
+                      onBlur={submitRename}
+                      autoFocus
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          submitRename();
+                        } else if (e.key === 'Escape') {
+                          setRenamingId(null);
+                        }
+                      }}
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton isActive={filter.projectId === project.id} onClick={() => selectProject(project.id)}>
+                        {filter.projectId === project.id ? <FolderOpen /> : <Folder />}
+                        <span>{project.name}</span>
+                      </SidebarMenuButton>
+                      <SidebarMenuBadge className="right-7">{countInProject(project.id)}</SidebarMenuBadge>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover>
+                            <MoreHorizontal />
+                            <span className="sr-only">Project actions</span>
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent side="right" align="start">
+                          <DropdownMenuItem onClick={() => {
+                            setRenamingId(project.id);
+                            setRenameText(project.name);
+                          }}>
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setScaleProject(project)}>
+                            <SlidersHorizontal className="w-4 h-4 mr-2" />
+                            Relevance scale…
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleDelete(project)} className="text-destructive">
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+
+              {isCreating && (
+                <SidebarMenuItem>
+                  <SidebarInput
+                    value={newProjectName}
+                    onChange={(e) => setNewProjectName(e.target.value)}
+                    onBlur={submitNewProject}
+                    placeholder="Project name"
+                    autoFocus
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        submitNewProject();
+                      } else if (e.key === 'Escape') {
+                        setIsCreating(false);
+                        setNewProjectName('');
+                      }
+                    }}
+                  />
+                </SidebarMenuItem>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Tags</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {tagCounts.length === 0 ? (
+                <p className="px-2 text-xs text-muted-foreground">
+                  Tag sessions in the library to filter by them here.
+                </p>
+              ) : (
+                tagCounts.map(({ tag, count }) => (
+                  <SidebarMenuItem key={tag}>
+                    <SidebarMenuButton size="sm" isActive={filter.tag === tag} onClick={() => selectTag(tag)}>
+                      <Tag />
+                      <span>{tag}</span>
+                    </SidebarMenuButton>
+                    <SidebarMenuBadge>{count}</SidebarMenuBadge>
+                  </SidebarMenuItem>
+                ))
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <ScaleEditorDialog
+        scale={scaleProject && (scaleProject.scale ?? DEFAULT_SCALE)}
+        title={`Relevance scale for "${scaleProject?.name}"`}
+        description="New sessions created in this project start with this scale. Existing sessions keep their own."
+        onSave={handleScaleSave}
+        onClose={() => setScaleProject(null)}
+      />
+    </Sidebar>
+  );
+};
+
+export default ProjectNavigator;
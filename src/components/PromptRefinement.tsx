@@ -4,74 +4,26 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Copy, Download, FileText, Sparkles } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { buildRefinedPrompt } from '@/lib/refinement';
+import { isNoiseLevel, resolveLevel, type RelevanceScale } from '@/lib/relevance-scale';
 import type { Annotation } from './AnnotationInterface';
 
 interface PromptRefinementProps {
   originalPrompt: string;
   originalResponse: string;
   annotations: Annotation[];
+  scale: RelevanceScale;
 }
 
 const PromptRefinement: React.FC<PromptRefinementProps> = ({
   originalPrompt,
   originalResponse,
-  annotations
+  annotations,
+  scale
 }) => {
   const { toast } = useToast();
 
-  const generateRefinedPrompt = () => {
-    if (annotations.length === 0) return originalPrompt;
-
-    const highRelevanceTexts = annotations
-      .filter(a => a.relevanceLevel === 'high')
-      .map(a => a.text);
-    
-    const lowRelevanceTexts = annotations
-      .filter(a => a.relevanceLevel === 'low')
-      .map(a => a.text);
-
-    const mediumRelevanceTexts = annotations
-      .filter(a => a.relevanceLevel === 'medium')
-      .map(a => a.text);
-
-    let refinedPrompt = `${originalPrompt}\n\n**Refinement Instructions based on user feedback:**\n`;
-
-    if (highRelevanceTexts.length > 0) {
-      refinedPrompt += `\n✅ **FOCUS MORE ON THESE ASPECTS** (user marked as highly relevant):\n`;
-      annotations.filter(a => a.relevanceLevel === 'high').forEach(annotation => {
-        refinedPrompt += `- "${annotation.text.slice(0, 100)}${annotation.text.length > 100 ? '...' : ''}"\n`;
-        if (annotation.comment) {
-          refinedPrompt += `  Context: ${annotation.comment}\n`;
-        }
-      });
-    }
-
-    if (mediumRelevanceTexts.length > 0) {
-      refinedPrompt += `\n⚖️ **MAINTAIN BALANCE** (moderately relevant):\n`;
-      annotations.filter(a => a.relevanceLevel === 'medium').forEach(annotation => {
-        refinedPrompt += `- "${annotation.text.slice(0, 100)}${annotation.text.length > 100 ? '...' : ''}"\n`;
-        if (annotation.comment) {
-          refinedPrompt += `  Context: ${annotation.comment}\n`;
-        }
-      });
-    }
-
-    if (lowRelevanceTexts.length > 0) {
-      refinedPrompt += `\n❌ **REDUCE OR AVOID** (user marked as less relevant):\n`;
-      annotations.filter(a => a.relevanceLevel === 'low').forEach(annotation => {
-        refinedPrompt += `- "${annotation.text.slice(0, 100)}${annotation.text.length > 100 ? '...' : ''}"\n`;
-        if (annotation.comment) {
-          refinedPrompt += `  Context: ${annotation.comment}\n`;
-        }
-      });
-    }
-
-    refinedPrompt += `\nPlease provide a new response that emphasizes the highly relevant aspects while minimizing the less relevant content.`;
-
-    return refinedPrompt;
-  };
-
-  const refinedPrompt = generateRefinedPrompt();
+  const refinedPrompt = buildRefinedPrompt(originalPrompt, annotations, scale);
 
   const copyToClipboard = async (text: string, label: string) => {
     try {
@@ -108,13 +60,14 @@ const PromptRefinement: React.FC<PromptRefinementProps> = ({
 
   const getAnnotationStats = () => {
     const total = annotations.length;
-    const high = annotations.filter(a => a.relevanceLevel === 'high').length;
-    const medium = annotations.filter(a => a.relevanceLevel === 'medium').length;
-    const neutral = annotations.filter(a => a.relevanceLevel === 'neutral').length;
-    const low = annotations.filter(a => a.relevanceLevel === 'low').length;
-    const noiseReduction = total > 0 ? Math.round((low / total) * 100) : 0;
+    const byLevel = scale.levels.map(level => ({
+      level,
+      count: annotations.filter(a => a.relevanceLevel === level.id).length
+    }));
+    const noise = annotations.filter(a => isNoiseLevel(resolveLevel(scale, a.relevanceLevel))).length;
+    const noiseReduction = total > 0 ? Math.round((noise / total) * 100) : 0;
     
-    return { total, high, medium, neutral, low, noiseReduction };
+    return { total, byLevel, noiseReduction };
   };
 
   const stats = getAnnotationStats();
@@ -180,27 +133,17 @@ const PromptRefinement: React.FC<PromptRefinementProps> = ({
           Refinement Analytics
         </h3>
         
-        <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
           <div className="text-center">
             <div className="text-2xl font-bold text-primary">{stats.total}</div>
             <div className="text-xs text-muted-foreground">Total</div>
           </div>
-          <div className="text-center">
-            <div className="text-2xl font-bold text-annotation-high">{stats.high}</div>
-            <div className="text-xs text-muted-foreground">High</div>
-          </div>
-          <div className="text-center">
-            <div className="text-2xl font-bold text-annotation-medium">{stats.medium}</div>
-            <div className="text-xs text-muted-foreground">Medium</div>
-          </div>
-          <div className="text-center">
-            <div className="text-2xl font-bold text-annotation-neutral">{stats.neutral}</div>
-            <div className="text-xs text-muted-foreground">Neutral</div>
-          </div>
-          <div className="text-center">
-            <div className="text-2xl font-bold text-annotation-low">{stats.low}</div>
-            <div className="text-xs text-muted-foreground">Low</div>
-          </div>
+          {stats.byLevel.map(({ level, count }) => (
+            <div key={level.id} className="text-center">
+              <div className="text-2xl font-bold" style={{ color: level.color }}>{count}</div>
+              <div className="text-xs text-muted-foreground">{level.emoji} {level.label}</div>
+            </div>
+          ))}
           <div className="text-center">
             <div className="text-2xl font-bold text-destructive">{stats.noiseReduction}%</div>
             <div className="text-xs text-muted-foreground">Noise</div>
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  generateLevelId,
+  generateScaleId,
+  SCALE_PRESETS,
+  type RelevanceLevel,
+  type RelevanceScale
+} from '@/lib/relevance-scale';
+
+interface ScaleEditorDialogProps {
+  // Scale being edited; the dialog is open while this is set
+  scale: RelevanceScale | null;
+  title: string;
+  description?: string;
+  // Level ids that annotations currently use, to warn before removing them
+  usedLevelIds?: string[];
+  onSave: (scale: RelevanceScale) => void;
+  onClose: () => void;
+}
+
+const ScaleEditorDialog: React.FC<ScaleEditorDialogProps> = ({
+  scale,
+  title,
+  description,
+  usedLevelIds = [],
+  onSave,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<RelevanceScale | null>(scale);
+
+  useEffect(() => {
+    setDraft(scale);
+  }, [scale]);
+
+  if (!scale || !draft) return null;
+
+  const updateLevel = (id: string, changes: Partial<RelevanceLevel>) => {
+    setDraft({
+      ...draft,
+      levels: draft.levels.map(level => (level.id === id ? { ...level, ...changes } : level))
+    });
+  };
+
+  const moveLevel = (index: number, offset: number) => {
+    const levels = [...draft.levels];
+    const [level] = levels.splice(index, 1);
+    levels.splice(index + offset, 0, level);
+    setDraft({ ...draft, levels });
+  };
+
+  const addLevel = () => {
+    setDraft({
+      ...draft,
+      levels: [
+        ...draft.levels,
+        { id: generateLevelId(), label: 'New level', emoji: '🏷️', color: '#8b5cf6', weight: 0, instruction: '' }
+      ]
+    });
+  };
+
+  const removeLevel = (id: string) => {
+    setDraft({ ...draft, levels: draft.levels.filter(level => level.id !== id) });
+  };
+
+  const applyPreset = (presetId: string) => {
+    const preset = SCALE_PRESETS.find(p => p.id === presetId);
+    if (preset) setDraft(preset);
+  };
+
+  const removedInUse = scale.levels.filter(level =>
+    usedLevelIds.includes(level.id) && !draft.levels.some(kept => kept.id === level.id)
+  );
+  const hasBlankLabel = draft.levels.some(level => !level.label.trim());
+  const canSave = draft.name.trim() && draft.levels.length > 0 && !hasBlankLabel;
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    const levels = draft.levels.map(level => ({ ...level, label: level.label.trim(), instruction: level.instruction.trim() }));
+    // Edited presets become the session's own scale rather than masquerading as the preset
+    const preset = SCALE_PRESETS.find(p => p.id === draft.id);
+    const isUnchangedPreset = preset && JSON.stringify(preset) === JSON.stringify({ ...draft, name, levels });
+    onSave({ id: preset && !isUnchangedPreset ? generateScaleId() : draft.id, name, levels });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="scale-name">Name</Label>
+            <Input
+              id="scale-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Start from preset</Label>
+            <Select onValueChange={applyPreset}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a preset…" />
+              </SelectTrigger>
+              <SelectContent>
+                {SCALE_PRESETS.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-[3rem_1fr_3rem_5rem_auto] gap-2 px-1 text-xs font-medium text-muted-foreground">
+            <span>Emoji</span>
+            <span>Label</span>
+            <span>Colour</span>
+            <span>Weight</span>
+            <span className="sr-only">Actions</span>
+          </div>
+          {draft.levels.map((level, index) => (
+            <div key={level.id} className="space-y-2 p-3 border rounded-lg">
+              <div className="grid grid-cols-[3rem_1fr_3rem_5rem_auto] gap-2 items-center">
+                <Input
+                  value={level.emoji}
+                  onChange={(e) => updateLevel(level.id, { emoji: e.target.value })}
+                  className="text-center px-1"
+                  aria-label="Emoji"
+                />
+                <Input
+                  value={level.label}
+                  onChange={(e) => updateLevel(level.id, { label: e.target.value })}
+                  aria-label="Label"
+                />
+                <input
+                  type="color"
+                  value={level.color}
+                  onChange={(e) => updateLevel(level.id, { color: e.target.value })}
+                  className="h-10 w-12 cursor-pointer rounded-md border bg-background p-1"
+                  aria-label="Colour"
+                />
+                <Input
+                  type="number"
+                  step="0.5"
+                  value={level.weight}
+                  onChange={(e) => updateLevel(level.id, { weight: Number(e.target.value) || 0 })}
+                  aria-label="Weight"
+                />
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => moveLevel(index, -1)} title="Move up">
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === draft.levels.length - 1}
+                    onClick={() => moveLevel(index, 1)}
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={draft.levels.length === 1}
+                    onClick={() => removeLevel(level.id)}
+                    title="Remove level"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <Input
+                value={level.instruction}
+                onChange={(e) => updateLevel(level.id, { instruction: e.target.value })}
+                placeholder="Refinement instruction, e.g. FOCUS MORE ON THESE ASPECTS (leave empty to omit)"
+                aria-label="Refinement instruction"
+              />
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addLevel}>
+            <Plus className="w-4 h-4" />
+            Add level
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Positive weights mark content to keep, negative weights mark noise, and weight 0 levels clear annotations.
+        </p>
+        {removedInUse.length > 0 && (
+          <p className="text-sm text-destructive">
+            Annotations on removed levels ({removedInUse.map(level => level.label).join(', ')}) will move to the level with the closest weight.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!canSave}>Save scale</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScaleEditorDialog;
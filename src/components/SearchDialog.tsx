@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { Badge } from '@/components/ui/badge';
+import { FileText, Highlighter, MessageSquare } from 'lucide-react';
+import { useSearchIndex } from '@/hooks/use-search';
+import { searchIndex, type SearchEntryKind, type SearchResult } from '@/lib/search-index';
+
+interface SearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelectResult: (result: SearchResult) => void;
+}
+
+const kindIcons: Record<SearchEntryKind, React.ElementType> = {
+  response: FileText,
+  excerpt: Highlighter,
+  comment: MessageSquare
+};
+
+const SearchDialog: React.FC<SearchDialogProps> = ({ open, onOpenChange, onSelectResult }) => {
+  const index = useSearchIndex();
+  const [query, setQuery] = useState('');
+
+  const results = useMemo(() => searchIndex(index, query), [index, query]);
+  const annotationResults = results.filter(result => result.entry.kind !== 'response');
+  const responseResults = results.filter(result => result.entry.kind === 'response');
+
+  const handleSelect = (result: SearchResult) => {
+    onSelectResult(result);
+    onOpenChange(false);
+    setQuery('');
+  };
+
+  const renderResult = (result: SearchResult, position: number) => {
+    const { entry } = result;
+    const Icon = kindIcons[entry.kind];
+    return (
+      <CommandItem
+        key={`${entry.sessionId}-${entry.kind}-${entry.annotationId ?? entry.offset}-${position}`}
+        value={`${entry.sessionId}-${entry.kind}-${entry.annotationId ?? entry.offset}-${position}`}
+        onSelect={() => handleSelect(result)}
+        className="items-start gap-3"
+      >
+        <Icon className="mt-0.5 shrink-0 text-muted-foreground" />
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="text-sm text-foreground line-clamp-2">{result.snippet}</p>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="truncate">{entry.sessionTitle}</span>
+            {entry.relevanceLevel && (
+              <Badge variant="outline" className="text-xs" style={{ color: entry.relevanceLevel.color }}>
+                {entry.relevanceLevel.emoji} {entry.relevanceLevel.label}
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CommandItem>
+    );
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        placeholder="Search responses, excerpts and comments…"
+      />
+      <CommandList className="max-h-[420px]">
+        {query.trim() && <CommandEmpty>No matches in your saved sessions.</CommandEmpty>}
+        {annotationResults.length > 0 && (
+          <CommandGroup heading="Annotations">
+            {annotationResults.map(renderResult)}
+          </CommandGroup>
+        )}
+        {responseResults.length > 0 && (
+          <CommandGroup heading="Responses">
+            {responseResults.map(renderResult)}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default SearchDialog;
@@ -0,0 +1,350 @@
+import React, { useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Library, FolderOpen, Pencil, Copy, Trash2, Plus, Check, X, FileUp, Folder, Tag } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useDeleteSession,
+  useDuplicateSession,
+  useImportSession,
+  useRenameSession,
+  useSessions,
+  useUpdateSessionDetails
+} from '@/hooks/use-sessions';
+import { useProjects } from '@/hooks/use-projects';
+import { FLUSH_FILE_EXTENSION } from '@/lib/session-format';
+import { filterSessions, UNFILED_PROJECT, type FlushSession, type SessionDetails, type SessionFilter } from '@/lib/session-store';
+
+interface SessionLibraryProps {
+  currentSessionId: string;
+  filter: SessionFilter;
+  onFilterChange: (filter: SessionFilter) => void;
+  onOpenSession: (session: FlushSession) => void;
+  onSessionUpdated: (session: FlushSession) => void;
+  onNewSession: () => void;
+}
+
+const SessionLibrary: React.FC<SessionLibraryProps> = ({
+  currentSessionId,
+  filter,
+  onFilterChange,
+  onOpenSession,
+  onSessionUpdated,
+  onNewSession
+}) => {
+  const { data: allSessions = [], isLoading, error } = useSessions();
+  const { data: projects = [] } = useProjects();
+  const renameSession = useRenameSession();
+  const duplicateSession = useDuplicateSession();
+  const deleteSession = useDeleteSession();
+  const updateSessionDetails = useUpdateSessionDetails();
+  const importSession = useImportSession();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<FlushSession | null>(null);
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const sessions = filterSessions(allSessions, filter);
+  const isFiltered = Boolean(filter.projectId || filter.tag);
+  const filterProjectName = filter.projectId === UNFILED_PROJECT
+    ? 'Unfiled'
+    : projects.find(p => p.id === filter.projectId)?.name;
+
+  const startRename = (session: FlushSession) => {
+    setRenamingId(session.id);
+    setRenameText(session.title);
+  };
+
+  const submitRename = () => {
+    if (!renamingId) return;
+    renameSession.mutate({ id: renamingId, title: renameText }, { onSuccess: onSessionUpdated });
+    setRenamingId(null);
+    setRenameText('');
+  };
+
+  const handleDuplicate = (session: FlushSession) => {
+    duplicateSession.mutate(session.id, {
+      onSuccess: () => toast({
+        title: "Session duplicated",
+        description: `"${session.title}" copied to your library`,
+      })
+    });
+  };
+
+  const updateDetails = (session: FlushSession, details: Partial<SessionDetails>) => {
+    updateSessionDetails.mutate({ id: session.id, details }, { onSuccess: onSessionUpdated });
+  };
+
+  const addTag = (session: FlushSession) => {
+    const tag = tagDrafts[session.id]?.trim();
+    setTagDrafts(drafts => ({ ...drafts, [session.id]: '' }));
+    if (!tag) return;
+    updateDetails(session, { tags: [...session.tags, tag] });
+  };
+
+  const removeTag = (session: FlushSession, tag: string) => {
+    updateDetails(session, { tags: session.tags.filter(t => t !== tag) });
+  };
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    const { id, title } = pendingDelete;
+    deleteSession.mutate(id, {
+      onSuccess: () => toast({
+        title: "Session deleted",
+        description: `"${title}" removed from your library`,
+      })
+    });
+    setPendingDelete(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+
+    for (const file of files) {
+      try {
+        const imported = await importSession.mutateAsync(file);
+        toast({
+          title: "Session imported",
+          description: `"${imported.title}" added to your library`,
+        });
+      } catch (err) {
+        toast({
+          title: "Import failed",
+          description: err instanceof Error ? err.message : `Could not import ${file.name}`,
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short'
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Library className="w-5 h-5" />
+            <h2 className="text-xl font-semibold text-foreground">Session Library</h2>
+            {sessions.length > 0 && (
+              <Badge variant="secondary" className="text-sm">
+                {sessions.length} session{sessions.length !== 1 ? 's' : ''}
+              </Badge>
+            )}
+            {filterProjectName && (
+              <Badge variant="outline" className="text-sm gap-1">
+                <Folder className="w-3 h-3" />
+                {filterProjectName}
+                <button onClick={() => onFilterChange({ ...filter, projectId: undefined })} title="Show all projects">
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            )}
+            {filter.tag && (
+              <Badge variant="outline" className="text-sm gap-1">
+                <Tag className="w-3 h-3" />
+                {filter.tag}
+                <button onClick={() => onFilterChange({ ...filter, tag: undefined })} title="Show all tags">
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`${FLUSH_FILE_EXTENSION},application/json`}
+              multiple
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button onClick={() => fileInputRef.current?.click()} variant="outline" size="sm" className="h-9">
+              <FileUp className="w-4 h-4 mr-1" />
+              Import
+            </Button>
+            <Button onClick={onNewSession} size="sm" className="h-9">
+              <Plus className="w-4 h-4 mr-1" />
+              New Session
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {isLoading ? (
+        <Card className="p-8 text-center text-muted-foreground">Loading sessions…</Card>
+      ) : error ? (
+        <Card className="p-8 text-center text-destructive">
+          Could not open the session library: {(error as Error).message}
+        </Card>
+      ) : sessions.length === 0 && isFiltered ? (
+        <Card className="p-8 text-center">
+          <p className="text-muted-foreground mb-4">No sessions match this project and tag.</p>
+          <Button variant="outline" size="sm" onClick={() => onFilterChange({})}>
+            Clear filters
+          </Button>
+        </Card>
+      ) : sessions.length === 0 ? (
+        <Card className="p-8 text-center">
+          <Library className="w-16 h-16 mx-auto mb-4 opacity-50" />
+          <p className="text-muted-foreground">
+            No saved sessions yet. Save your current annotation session to keep it across reloads.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {sessions.map((session) => {
+            const annotationCount = session.textAnnotations.length + session.canvasAnnotations.length;
+            const isCurrent = session.id === currentSessionId;
+
+            return (
+              <Card key={session.id} className={`p-4 ${isCurrent ? 'border-primary' : ''}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    {renamingId === session.id ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={renameText}
+                          onChange={(e) => setRenameText(e.target.value)}
+                          className="h-8 text-sm"
+                          autoFocus
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              submitRename();
+                            } else if (e.key === 'Escape') {
+                              setRenamingId(null);
+                            }
+                          }}
+                        />
+                        <Button variant="ghost" size="sm" onClick={submitRename} className="h-8 w-8 p-0">
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setRenamingId(null)} className="h-8 w-8 p-0">
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <h3 className="text-sm font-semibold text-foreground truncate">{session.title}</h3>
+                        {isCurrent && (
+                          <Badge variant="outline" className="text-xs">Open</Badge>
+                        )}
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground line-clamp-2">{session.content}</p>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <span>{annotationCount} annotation{annotationCount !== 1 ? 's' : ''}</span>
+                      <span>Updated {formatDate(session.updatedAt)}</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 pt-1">
+                      <Select
+                        value={session.projectId ?? UNFILED_PROJECT}
+                        onValueChange={(value) => updateDetails(session, {
+                          projectId: value === UNFILED_PROJECT ? undefined : value
+                        })}
+                      >
+                        <SelectTrigger className="h-7 w-40 text-xs">
+                          <Folder className="w-3 h-3 mr-1" />
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNFILED_PROJECT}>No project</SelectItem>
+                          {projects.map((project) => (
+                            <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {session.tags.map((tag) => (
+                        <Badge key={tag} variant="secondary" className="text-xs gap-1">
+                          <button onClick={() => onFilterChange({ ...filter, tag })} title={`Show sessions tagged ${tag}`}>
+                            {tag}
+                          </button>
+                          <button onClick={() => removeTag(session, tag)} title="Remove tag">
+                            <X className="w-3 h-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                      <Input
+                        value={tagDrafts[session.id] ?? ''}
+                        onChange={(e) => setTagDrafts(drafts => ({ ...drafts, [session.id]: e.target.value }))}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' || e.key === ',') {
+                            e.preventDefault();
+                            addTag(session);
+                          }
+                        }}
+                        onBlur={() => addTag(session)}
+                        placeholder="Add tag"
+                        className="h-7 w-24 text-xs"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex gap-1">
+                    <Button variant="outline" size="sm" onClick={() => onOpenSession(session)} className="h-8">
+                      <FolderOpen className="w-3 h-3 mr-1" />
+                      Open
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => startRename(session)} className="h-8 w-8 p-0" title="Rename">
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDuplicate(session)} className="h-8 w-8 p-0" title="Duplicate">
+                      <Copy className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPendingDelete(session)}
+                      className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and all of its annotations will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SessionLibrary;
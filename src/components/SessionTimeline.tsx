@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, ArrowRight, Plus, Minus, MessageSquare, FileText, PenTool } from 'lucide-react';
+import { useSnapshots } from '@/hooks/use-snapshots';
+import { countChanges, diffSnapshots, type SnapshotDiff } from '@/lib/snapshot-diff';
+import type { SessionSnapshot } from '@/lib/snapshot-store';
+import { resolveLevel, type RelevanceScale } from '@/lib/relevance-scale';
+import type { Annotation } from './AnnotationInterface';
+
+interface SessionTimelineProps {
+  sessionId: string;
+  scale: RelevanceScale;
+}
+
+const LevelBadge: React.FC<{ scale: RelevanceScale; level: Annotation['relevanceLevel'] }> = ({ scale, level }) => {
+  const { color, emoji, label } = resolveLevel(scale, level);
+  return (
+    <Badge variant="outline" className="text-xs" style={{ borderColor: color, color }}>
+      {emoji} {label}
+    </Badge>
+  );
+};
+
+const Excerpt: React.FC<{ annotation: Annotation }> = ({ annotation }) => (
+  <span className="text-sm text-foreground line-clamp-1">"{annotation.text}"</span>
+);
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short'
+});
+
+const summarize = (diff: SnapshotDiff) => {
+  const parts: string[] = [];
+  if (diff.annotationsAdded.length) parts.push(`+${diff.annotationsAdded.length} added`);
+  if (diff.annotationsRemoved.length) parts.push(`−${diff.annotationsRemoved.length} removed`);
+  if (diff.levelChanges.length) parts.push(`${diff.levelChanges.length} re-rated`);
+  if (diff.commentChanges.length) parts.push(`${diff.commentChanges.length} comment${diff.commentChanges.length !== 1 ? 's' : ''}`);
+  if (diff.canvasAdded.length || diff.canvasRemoved.length) parts.push('canvas');
+  if (diff.textChanged) parts.push('text edited');
+  return parts.join(' · ') || 'No changes';
+};
+
+const SessionTimeline: React.FC<SessionTimelineProps> = ({ sessionId, scale }) => {
+  const { data: snapshots = [], isLoading } = useSnapshots(sessionId);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  // Default to the latest save compared with the one before it
+  useEffect(() => {
+    if (snapshots.length === 0) return;
+    setToId(current => current && snapshots.some(s => s.id === current) ? current : snapshots[snapshots.length - 1].id);
+    setFromId(current => current && snapshots.some(s => s.id === current)
+      ? current
+      : snapshots[Math.max(0, snapshots.length - 2)].id
+    );
+  }, [snapshots]);
+
+  const from = snapshots.find(s => s.id === fromId);
+  const to = snapshots.find(s => s.id === toId);
+  const diff = useMemo(() => from && to ? diffSnapshots(from, to) : null, [from, to]);
+  const stepSummaries = useMemo(
+    () => snapshots.map((snapshot, index) => index > 0 ? summarize(diffSnapshots(snapshots[index - 1], snapshot)) : null),
+    [snapshots]
+  );
+
+  const selectStep = (index: number) => {
+    setFromId(snapshots[Math.max(0, index - 1)].id);
+    setToId(snapshots[index].id);
+  };
+
+  const snapshotLabel = (snapshot: SessionSnapshot) =>
+    `#${snapshots.indexOf(snapshot) + 1} · ${formatDate(snapshot.createdAt)}`;
+
+  if (isLoading) {
+    return <Card className="p-8 text-center text-muted-foreground">Loading timeline…</Card>;
+  }
+
+  if (snapshots.length === 0) {
+    return (
+      <Card className="p-8 text-center">
+        <History className="w-16 h-16 mx-auto mb-4 opacity-50" />
+        <p className="text-muted-foreground">
+          Save this session to start its timeline. Every save that changes the text or annotations is recorded as a snapshot.
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[18rem_1fr]">
+      <Card className="p-4 h-fit">
+        <div className="flex items-center gap-2 mb-4">
+          <History className="w-4 h-4" />
+          <h3 className="text-sm font-semibold text-foreground">Snapshots</h3>
+          <Badge variant="secondary" className="text-xs">{snapshots.length}</Badge>
+        </div>
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {snapshots.map((snapshot, index) => {
+            const isSelected = snapshot.id === toId;
+            return (
+              <li key={snapshot.id} className="ml-4">
+                <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border ${isSelected ? 'bg-primary border-primary' : 'bg-background border-border'}`} />
+                <button onClick={() => selectStep(index)} className="text-left w-full">
+                  <p className={`text-sm ${isSelected ? 'font-semibold text-foreground' : 'text-foreground'}`}>
+                    #{index + 1} · {formatDate(snapshot.createdAt)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {stepSummaries[index] ?? `Created with ${snapshot.textAnnotations.length + snapshot.canvasAnnotations.length} annotations`}
+                  </p>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </Card>
+
+      <div className="space-y-4">
+        <Card className="p-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Select value={fromId ?? undefined} onValueChange={setFromId}>
+              <SelectTrigger className="h-9 w-64 text-sm">
+                <SelectValue placeholder="From" />
+              </SelectTrigger>
+              <SelectContent>
+                {snapshots.map(snapshot => (
+                  <SelectItem key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ArrowRight className="w-4 h-4 text-muted-foreground" />
+            <Select value={toId ?? undefined} onValueChange={setToId}>
+              <SelectTrigger className="h-9 w-64 text-sm">
+                <SelectValue placeholder="To" />
+              </SelectTrigger>
+              <SelectContent>
+                {snapshots.map(snapshot => (
+                  <SelectItem key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {diff && (
+              <Badge variant="secondary" className="text-xs ml-auto">
+                {countChanges(diff)} change{countChanges(diff) !== 1 ? 's' : ''}
+              </Badge>
+            )}
+          </div>
+        </Card>
+
+        {diff && countChanges(diff) === 0 && (
+          <Card className="p-6 text-center text-muted-foreground">
+            {from === to ? 'Pick two different snapshots to compare.' : 'Nothing changed between these snapshots.'}
+          </Card>
+        )}
+
+        {diff && (diff.annotationsAdded.length > 0 || diff.annotationsRemoved.length > 0) && (
+          <Card className="p-4 space-y-2">
+            <h4 className="text-sm font-semibold text-foreground">Annotations</h4>
+            {diff.annotationsAdded.map(annotation => (
+              <div key={annotation.id} className="flex items-center gap-2">
+                <Plus className="w-4 h-4 text-green-600 shrink-0" />
+                <LevelBadge scale={scale} level={annotation.relevanceLevel} />
+                <Excerpt annotation={annotation} />
+              </div>
+            ))}
+            {diff.annotationsRemoved.map(annotation => (
+              <div key={annotation.id} className="flex items-center gap-2 opacity-70">
+                <Minus className="w-4 h-4 text-destructive shrink-0" />
+                <LevelBadge scale={scale} level={annotation.relevanceLevel} />
+                <span className="line-through"><Excerpt annotation={annotation} /></span>
+              </div>
+            ))}
+          </Card>
+        )}
+
+        {diff && diff.levelChanges.length > 0 && (
+          <Card className="p-4 space-y-2">
+            <h4 className="text-sm font-semibold text-foreground">Relevance changes</h4>
+            {diff.levelChanges.map(({ annotation, from: fromLevel, to: toLevel }) => (
+              <div key={annotation.id} className="flex items-center gap-2">
+                <LevelBadge scale={scale} level={fromLevel} />
+                <ArrowRight className="w-3 h-3 text-muted-foreground shrink-0" />
+                <LevelBadge scale={scale} level={toLevel} />
+                <Excerpt annotation={annotation} />
+              </div>
+            ))}
+          </Card>
+        )}
+
+        {diff && diff.commentChanges.length > 0 && (
+          <Card className="p-4 space-y-3">
+            <h4 className="text-sm font-semibold text-foreground">Comments</h4>
+            {diff.commentChanges.map(({ annotation, from: fromComment, to: toComment }) => (
+              <div key={annotation.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <MessageSquare className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <Excerpt annotation={annotation} />
+                </div>
+                <p className="text-xs ml-6">
+                  {fromComment && <del className="text-destructive mr-2">{fromComment}</del>}
+                  {toComment && <ins className="text-green-700 no-underline">{toComment}</ins>}
+                </p>
+              </div>
+            ))}
+          </Card>
+        )}
+
+        {diff && (diff.canvasAdded.length > 0 || diff.canvasRemoved.length > 0) && (
+          <Card className="p-4 flex items-center gap-2 text-sm text-foreground">
+            <PenTool className="w-4 h-4 text-muted-foreground" />
+            Canvas: {diff.canvasAdded.length} stroke{diff.canvasAdded.length !== 1 ? 's' : ''} added, {diff.canvasRemoved.length} removed
+          </Card>
+        )}
+
+        {diff && diff.textChanged && (
+          <Card className="p-4 space-y-2">
+            <h4 className="text-sm font-semibold text-foreground flex items-center gap-2">
+              <FileText className="w-4 h-4" />
+              Text edits
+            </h4>
+            <div className="text-sm leading-relaxed whitespace-pre-wrap p-3 border rounded-lg bg-background">
+              {diff.textSegments.map((segment, index) =>
+                segment.type === 'insert' ? (
+                  <ins key={index} className="bg-green-500/20 text-foreground no-underline rounded-sm">{segment.text}</ins>
+                ) : segment.type === 'delete' ? (
+                  <del key={index} className="bg-destructive/15 text-muted-foreground rounded-sm">{segment.text}</del>
+                ) : (
+                  <span key={index} className="text-muted-foreground">{segment.text}</span>
+                )
+              )}
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeline;
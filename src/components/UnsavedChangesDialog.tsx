@@ -0,0 +1,42 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { buttonVariants } from '@/components/ui/button';
+
+interface UnsavedChangesDialogProps {
+  // Title of the session with unsaved changes; null while no switch is pending
+  sessionTitle: string | null;
+  onSave: () => void;
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+const UnsavedChangesDialog: React.FC<UnsavedChangesDialogProps> = ({ sessionTitle, onSave, onDiscard, onCancel }) => (
+  <AlertDialog open={sessionTitle !== null} onOpenChange={(open) => !open && onCancel()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Save changes first?</AlertDialogTitle>
+        <AlertDialogDescription>
+          "{sessionTitle}" has unsaved changes. Discarding them also deletes their autosaved draft.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={onDiscard}>
+          Discard changes
+        </AlertDialogAction>
+        <AlertDialogAction onClick={onSave}>Save</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default UnsavedChangesDialog;
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { AnnotationMode } from '@/components/CombinedAnnotationInterface';
+import { clearDraft, writeDraft } from '@/lib/draft-store';
+import type { FlushSession } from '@/lib/session-store';
+
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+interface AutosaveOptions {
+  // Off until a pending recovery prompt has been answered, so the old draft is not overwritten
+  enabled: boolean;
+  hasUnsavedChanges: boolean;
+}
+
+// Periodically snapshots the workspace to the draft store while it has unsaved
+// changes, and flushes immediately when the page is hidden (tab switch, eviction).
+export function useAutosave(session: FlushSession, activeMode: AnnotationMode, { enabled, hasUnsavedChanges }: AutosaveOptions) {
+  const latestRef = useRef({ session, activeMode });
+  const writtenRef = useRef<{ session: FlushSession; activeMode: AnnotationMode } | null>(null);
+
+  useEffect(() => {
+    latestRef.current = { session, activeMode };
+  }, [session, activeMode]);
+
+  const flush = useCallback(() => {
+    const latest = latestRef.current;
+    const written = writtenRef.current;
+    if (written && written.session === latest.session && written.activeMode === latest.activeMode) return;
+
+    writtenRef.current = latest;
+    writeDraft(latest.session, latest.activeMode).catch(err => {
+      writtenRef.current = null;
+      console.warn('Autosave failed', err);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (!hasUnsavedChanges) {
+      writtenRef.current = null;
+      clearDraft().catch(err => console.warn('Could not clear autosaved draft', err));
+      return;
+    }
+
+    const interval = window.setInterval(flush, AUTOSAVE_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [enabled, hasUnsavedChanges, flush]);
+}
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useState, type Dispatch, type SetStateAction } from 'react';
+import { mergeCommands, type HistoryCommand, type HistoryDocument } from '@/lib/history';
+
+const MAX_HISTORY = 200;
+
+interface HistoryStacks {
+  undo: HistoryCommand[];
+  redo: HistoryCommand[];
+}
+
+const EMPTY_STACKS: HistoryStacks = { undo: [], redo: [] };
+
+export interface HistoryControls {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+// Undo/redo over a document held in React state. The stacks are cleared whenever
+// scopeKey changes, so each session keeps its own history.
+export function useHistory<T extends HistoryDocument>(
+  setDocument: Dispatch<SetStateAction<T>>,
+  scopeKey: string
+) {
+  const [stacks, setStacks] = useState<HistoryStacks>(EMPTY_STACKS);
+
+  useEffect(() => {
+    setStacks(EMPTY_STACKS);
+  }, [scopeKey]);
+
+  const execute = useCallback((command: HistoryCommand | null) => {
+    if (!command) return;
+    setDocument(doc => command.apply(doc));
+    setStacks(prev => {
+      const last = prev.undo[prev.undo.length - 1];
+      const merged = last ? mergeCommands(last, command) : null;
+      const undo = merged
+        ? [...prev.undo.slice(0, -1), merged]
+        : [...prev.undo, command].slice(-MAX_HISTORY);
+      return { undo, redo: [] };
+    });
+  }, [setDocument]);
+
+  const undo = useCallback(() => {
+    const command = stacks.undo[stacks.undo.length - 1];
+    if (!command) return;
+    setDocument(doc => command.revert(doc));
+    setStacks({ undo: stacks.undo.slice(0, -1), redo: [...stacks.redo, command] });
+  }, [stacks, setDocument]);
+
+  const redo = useCallback(() => {
+    const command = stacks.redo[stacks.redo.length - 1];
+    if (!command) return;
+    setDocument(doc => command.apply(doc));
+    setStacks({ undo: [...stacks.undo, command], redo: stacks.redo.slice(0, -1) });
+  }, [stacks, setDocument]);
+
+  const controls: HistoryControls = {
+    canUndo: stacks.undo.length > 0,
+    canRedo: stacks.redo.length > 0,
+    undoLabel: stacks.undo[stacks.undo.length - 1]?.label,
+    redoLabel: stacks.redo[stacks.redo.length - 1]?.label,
+    undo,
+    redo
+  };
+
+  return { execute, controls };
+}
+
+// Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes. Plain inputs keep their native undo.
+export function useHistoryShortcuts(controls: HistoryControls, enabled = true) {
+  const { undo, redo } = controls;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, enabled]);
+}
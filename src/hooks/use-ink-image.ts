@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+// Loads a layer's legacy ink PNG for drawing onto a canvas; null without ink or until it has loaded
+export function useInkImage(src?: string): HTMLImageElement | null {
+  const [loaded, setLoaded] = useState<{ src: string; image: HTMLImageElement } | null>(null);
+
+  useEffect(() => {
+    if (!src) return;
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (!cancelled) setLoaded({ src, image });
+    };
+    image.src = src;
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  return src && loaded?.src === src ? loaded.image : null;
+}
@@ -0,0 +1,45 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createProject, deleteProject, listProjects, renameProject, setProjectScale } from '@/lib/project-store';
+import type { RelevanceScale } from '@/lib/relevance-scale';
+import { SESSIONS_QUERY_KEY } from './use-sessions';
+
+export const PROJECTS_QUERY_KEY = ['projects'];
+
+export function useProjects() {
+  return useQuery({
+    queryKey: PROJECTS_QUERY_KEY,
+    queryFn: listProjects
+  });
+}
+
+function useProjectMutation<TVariables, TResult>(mutationFn: (variables: TVariables) => Promise<TResult>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY })
+  });
+}
+
+export function useCreateProject() {
+  return useProjectMutation((name: string) => createProject(name));
+}
+
+export function useRenameProject() {
+  return useProjectMutation(({ id, name }: { id: string; name: string }) => renameProject(id, name));
+}
+
+export function useSetProjectScale() {
+  return useProjectMutation(({ id, scale }: { id: string; scale: RelevanceScale }) => setProjectScale(id, scale));
+}
+
+// Deleting a project unfiles its sessions, so the session list is refreshed too
+export function useDeleteProject() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => deleteProject(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+    }
+  });
+}
@@ -0,0 +1,9 @@
+import { useMemo } from 'react';
+import { buildSearchIndex } from '@/lib/search-index';
+import { useSessions } from './use-sessions';
+
+// The index is rebuilt whenever the saved session list changes
+export function useSearchIndex() {
+  const { data: sessions } = useSessions();
+  return useMemo(() => buildSearchIndex(sessions ?? []), [sessions]);
+}
@@ -0,0 +1,69 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  deleteSession,
+  duplicateSession,
+  listSessions,
+  renameSession,
+  saveSession,
+  updateSessionDetails,
+  type FlushSession,
+  type SessionDetails
+} from '@/lib/session-store';
+import { importSessionFile } from '@/lib/session-format';
+import { PROJECTS_QUERY_KEY } from './use-projects';
+import { SNAPSHOTS_QUERY_KEY } from './use-snapshots';
+
+export const SESSIONS_QUERY_KEY = ['sessions'];
+
+export function useSessions() {
+  return useQuery({
+    queryKey: SESSIONS_QUERY_KEY,
+    queryFn: listSessions
+  });
+}
+
+// Saving can record a snapshot, so the snapshot timelines are refreshed along with the list
+function useSessionMutation<TVariables, TResult>(mutationFn: (variables: TVariables) => Promise<TResult>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: SNAPSHOTS_QUERY_KEY });
+    }
+  });
+}
+
+export function useSaveSession() {
+  return useSessionMutation((session: FlushSession) => saveSession(session));
+}
+
+export function useDeleteSession() {
+  return useSessionMutation((id: string) => deleteSession(id));
+}
+
+export function useRenameSession() {
+  return useSessionMutation(({ id, title }: { id: string; title: string }) => renameSession(id, title));
+}
+
+export function useDuplicateSession() {
+  return useSessionMutation((id: string) => duplicateSession(id));
+}
+
+export function useUpdateSessionDetails() {
+  return useSessionMutation(({ id, details }: { id: string; details: Partial<SessionDetails> }) =>
+    updateSessionDetails(id, details)
+  );
+}
+
+// Importing may create the project named in the file, so both lists are refreshed
+export function useImportSession() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (file: File) => saveSession(await importSessionFile(file)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY });
+    }
+  });
+}
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { listSnapshots } from '@/lib/snapshot-store';
+
+export const SNAPSHOTS_QUERY_KEY = ['snapshots'];
+
+export function useSnapshots(sessionId: string) {
+  return useQuery({
+    queryKey: [...SNAPSHOTS_QUERY_KEY, sessionId],
+    queryFn: () => listSnapshots(sessionId)
+  });
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { Annotation } from '@/components/AnnotationInterface';
+import { NO_LABEL } from './agreement';
+import {
+  consensusSpans,
+  findDisputes,
+  goldAnnotations,
+  goldLabelOf,
+  hasGoldLayer,
+  recordGoldLabel,
+  withGoldAnnotator
+} from './adjudication';
+import { GOLD_ANNOTATOR } from './annotators';
+import { DEFAULT_SCALE } from './relevance-scale';
+
+const content = 'alpha beta gamma';
+
+const label = (annotatorId: string, quote: string, relevanceLevel: string): Annotation => {
+  const startIndex = content.indexOf(quote);
+  return { id: `${annotatorId}-${quote}`, startIndex, endIndex: startIndex + quote.length, relevanceLevel, text: quote, annotatorId };
+};
+
+// Both annotators call "alpha" high; they disagree on "beta gamma"
+const annotations = [
+  label('ann-1', 'alpha beta gamma', 'high'),
+  label('ann-2', 'alpha', 'high'),
+  label('ann-2', 'beta gamma', 'low')
+];
+
+const span = (quote: string) => ({ start: content.indexOf(quote), end: content.indexOf(quote) + quote.length });
+
+const goldText = (result: Annotation[]) =>
+  goldAnnotations(result)
+    .map(a => `${content.slice(a.startIndex, a.endIndex)}:${a.relevanceLevel}`)
+    .sort();
+
+describe('consensusSpans and findDisputes', () => {
+  it('finds what everyone agrees on and where they differ', () => {
+    expect(consensusSpans(content, annotations, DEFAULT_SCALE)).toEqual([{ ...span('alpha'), label: 'high' }]);
+    expect(findDisputes(content, annotations, DEFAULT_SCALE).map(d => content.slice(d.start, d.end))).toEqual(['beta gamma']);
+  });
+});
+
+describe('recordGoldLabel', () => {
+  it('seeds the gold layer with the agreed spans on the first decision', () => {
+    const result = recordGoldLabel(content, annotations, DEFAULT_SCALE, span('beta'), 'low');
+    expect(goldText(result)).toEqual(['alpha:high', 'beta:low']);
+    expect(goldAnnotations(result).every(a => a.annotatorId === GOLD_ANNOTATOR.id)).toBe(true);
+    // The annotators' own labels are left as they were
+    expect(result.filter(a => a.annotatorId !== GOLD_ANNOTATOR.id)).toEqual(annotations);
+  });
+
+  it('overwrites an earlier gold label for the span instead of stacking a second one', () => {
+    const first = recordGoldLabel(content, annotations, DEFAULT_SCALE, span('beta'), 'low');
+    const second = recordGoldLabel(content, first, DEFAULT_SCALE, span('beta'), 'high');
+    expect(goldText(second)).toEqual(['alpha:high', 'beta:high']);
+    expect(goldLabelOf(content, second, DEFAULT_SCALE, span('beta'))).toBe('high');
+  });
+
+  it('overwrites part of a longer gold span, keeping the rest', () => {
+    const whole = recordGoldLabel(content, annotations, DEFAULT_SCALE, span('beta gamma'), 'low');
+    const result = recordGoldLabel(content, whole, DEFAULT_SCALE, span('gamma'), 'neutral');
+    expect(goldText(result)).toEqual(['alpha:high', 'beta:low', 'gamma:neutral']);
+  });
+
+  it('clears the span when no label is chosen', () => {
+    const first = recordGoldLabel(content, annotations, DEFAULT_SCALE, span('beta'), 'low');
+    const cleared = recordGoldLabel(content, first, DEFAULT_SCALE, span('beta'), null);
+    expect(goldText(cleared)).toEqual(['alpha:high']);
+    expect(goldLabelOf(content, cleared, DEFAULT_SCALE, span('beta'))).toBe(NO_LABEL);
+  });
+});
+
+describe('gold layer helpers', () => {
+  it('lists the gold annotator once', () => {
+    expect(hasGoldLayer(annotations)).toBe(false);
+    const annotators = withGoldAnnotator([]);
+    expect(annotators).toEqual([GOLD_ANNOTATOR]);
+    expect(withGoldAnnotator(annotators)).toBe(annotators);
+  });
+});
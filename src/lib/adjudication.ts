@@ -0,0 +1,86 @@
+import type { Annotation } from '@/components/AnnotationInterface';
+import { computeAgreement, labelSegments, NO_LABEL, type Disagreement, type TextSegment } from './agreement';
+import { eraseRange } from './annotation-overlap';
+import { annotatorIdOf, GOLD_ANNOTATOR, type Annotator } from './annotators';
+import type { RelevanceScale } from './relevance-scale';
+
+// Adjudication turns several annotators' labels into one gold layer: text everyone labelled
+// the same way is copied over, and a lead decides each span where they disagree. The gold
+// layer is stored as ordinary text annotations owned by GOLD_ANNOTATOR.
+
+export interface GoldSpan extends TextSegment {
+  label: string;
+}
+
+export const isGold = (annotation: Annotation) => annotatorIdOf(annotation) === GOLD_ANNOTATOR.id;
+
+export const goldAnnotations = (annotations: Annotation[]) => annotations.filter(a => isGold(a) && !a.orphaned);
+
+export const hasGoldLayer = (annotations: Annotation[]) => goldAnnotations(annotations).length > 0;
+
+// The gold layer is listed with the session's annotators so files name every layer they hold
+export const withGoldAnnotator = (annotators: Annotator[]): Annotator[] =>
+  annotators.some(a => a.id === GOLD_ANNOTATOR.id) ? annotators : [...annotators, GOLD_ANNOTATOR];
+
+// Token runs where the annotators (not the gold layer) give different labels
+export const findDisputes = (content: string, annotations: Annotation[], scale: RelevanceScale): Disagreement[] =>
+  computeAgreement(content, annotations, scale, 'token').disagreements;
+
+// Character runs every annotator labelled with the same level, joined across whitespace
+export const consensusSpans = (content: string, annotations: Annotation[], scale: RelevanceScale): GoldSpan[] => {
+  const report = computeAgreement(content, annotations, scale, 'character');
+  const spans: GoldSpan[] = [];
+  report.segments.forEach((segment, unit) => {
+    const labels = report.annotatorIds.map(id => report.ratings[id][unit]);
+    const label = labels[0];
+    if (label === undefined || label === NO_LABEL || labels.some(other => other !== label)) return;
+
+    const last = spans[spans.length - 1];
+    if (last && last.label === label && !content.slice(last.end, segment.start).trim()) {
+      last.end = segment.end;
+    } else {
+      spans.push({ start: segment.start, end: segment.end, label });
+    }
+  });
+  return spans;
+};
+
+// The gold label covering most of a span, or NO_LABEL
+export const goldLabelOf = (
+  content: string,
+  annotations: Annotation[],
+  scale: RelevanceScale,
+  span: TextSegment
+): string => labelSegments(content, [span], goldAnnotations(annotations), scale)[0];
+
+// Each annotator's own annotations overlapping a span, for showing their comments
+export const annotationsInSpan = (annotations: Annotation[], annotatorId: string, span: TextSegment): Annotation[] =>
+  annotations.filter(a =>
+    !a.orphaned && annotatorIdOf(a) === annotatorId && a.startIndex < span.end && a.endIndex > span.start
+  );
+
+const createGoldAnnotation = (content: string, span: GoldSpan): Annotation => ({
+  id: `annotation-${Date.now()}-${Math.random()}`,
+  startIndex: span.start,
+  endIndex: span.end,
+  relevanceLevel: span.label,
+  text: content.slice(span.start, span.end),
+  annotatorId: GOLD_ANNOTATOR.id
+});
+
+// Record the gold label of a disputed span; null leaves the span unmarked in the gold layer.
+// The first decision also copies the agreed spans, so the gold layer is complete from the start.
+export const recordGoldLabel = (
+  content: string,
+  annotations: Annotation[],
+  scale: RelevanceScale,
+  span: TextSegment,
+  label: string | null
+): Annotation[] => {
+  const seeded = hasGoldLayer(annotations)
+    ? annotations
+    : [...annotations, ...consensusSpans(content, annotations, scale).map(agreed => createGoldAnnotation(content, agreed))];
+
+  const { annotations: cleared } = eraseRange(seeded, span.start, span.end, content, GOLD_ANNOTATOR.id);
+  return label === null ? cleared : [...cleared, createGoldAnnotation(content, { ...span, label })];
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { Annotation } from '@/components/AnnotationInterface';
+import { DEFAULT_SCALE } from './relevance-scale';
+import {
+  cohensKappa,
+  computeAgreement,
+  confusionMatrix,
+  findDisagreements,
+  krippendorffAlpha,
+  NO_LABEL,
+  segmentUnits
+} from './agreement';
+
+const mark = (annotatorId: string, startIndex: number, endIndex: number, relevanceLevel: string): Annotation => ({
+  id: `${annotatorId}-${startIndex}`,
+  startIndex,
+  endIndex,
+  relevanceLevel,
+  text: '',
+  annotatorId
+});
+
+describe('segmentUnits', () => {
+  it('uses UTF-16 offsets for character units after astral characters', () => {
+    const content = '😀 ab';
+    expect(segmentUnits(content, 'character')).toEqual([
+      { start: 0, end: 1 },
+      { start: 1, end: 2 },
+      { start: 3, end: 4 },
+      { start: 4, end: 5 }
+    ]);
+  });
+
+  it('splits tokens on words', () => {
+    const content = 'Keep this, drop that.';
+    expect(segmentUnits(content, 'token').map(({ start, end }) => content.slice(start, end))).toEqual(['Keep', 'this', 'drop', 'that']);
+  });
+});
+
+describe('cohensKappa', () => {
+  it('matches a worked example', () => {
+    expect(cohensKappa(['a', 'a', 'b', 'b'], ['a', 'b', 'b', 'b'])).toBeCloseTo(0.5);
+  });
+
+  it('is 1 for identical labels and null when chance agreement is certain', () => {
+    expect(cohensKappa(['a', 'b'], ['a', 'b'])).toBe(1);
+    expect(cohensKappa(['a', 'a'], ['a', 'a'])).toBeNull();
+  });
+});
+
+describe('krippendorffAlpha', () => {
+  it('matches a worked example for two annotators', () => {
+    expect(krippendorffAlpha([['a', 'a', 'b', 'b'], ['a', 'b', 'b', 'b']])).toBeCloseTo(1 - 14 / 30);
+  });
+
+  it('is null with fewer than two annotators or a single label', () => {
+    expect(krippendorffAlpha([['a', 'b']])).toBeNull();
+    expect(krippendorffAlpha([['a', 'a'], ['a', 'a']])).toBeNull();
+  });
+});
+
+describe('confusionMatrix', () => {
+  it('counts label pairs', () => {
+    expect(confusionMatrix(['a', 'a', 'b'], ['a', 'b', 'b'], ['a', 'b'])).toEqual([[1, 1], [0, 1]]);
+  });
+});
+
+describe('findDisagreements', () => {
+  it('merges neighbouring units with the same labels', () => {
+    const segments = [{ start: 0, end: 1 }, { start: 1, end: 2 }, { start: 2, end: 3 }];
+    expect(findDisagreements(segments, { x: ['a', 'a', 'a'], y: ['b', 'b', 'a'] })).toEqual([
+      { start: 0, end: 2, labels: { x: 'a', y: 'b' } }
+    ]);
+  });
+});
+
+describe('computeAgreement', () => {
+  const [high, , low] = DEFAULT_SCALE.levels.map(level => level.id);
+
+  it('labels character units correctly after an emoji', () => {
+    const content = '😀 keep';
+    const report = computeAgreement(content, [mark('x', 3, 7, high), mark('y', 3, 7, high)], DEFAULT_SCALE, 'character');
+    expect(report.ratings.x).toEqual([NO_LABEL, NO_LABEL, high, high, high, high]);
+    expect(report.disagreements).toEqual([]);
+  });
+
+  it('leaves out the gold layer and orphaned annotations', () => {
+    const content = 'one two three';
+    const report = computeAgreement(content, [
+      mark('x', 0, 3, high),
+      mark('y', 0, 3, low),
+      mark('gold', 0, 3, high),
+      { ...mark('z', 0, 3, high), orphaned: true }
+    ], DEFAULT_SCALE, 'token');
+    expect(report.annotatorIds).toEqual(['x', 'y']);
+    expect(report.disagreements).toEqual([{ start: 0, end: 3, labels: { x: high, y: low } }]);
+  });
+});
@@ -0,0 +1,215 @@
+import type { Annotation } from '@/components/AnnotationInterface';
+import { annotatorIdOf, GOLD_ANNOTATOR } from './annotators';
+import { resolveLevel, type RelevanceScale } from './relevance-scale';
+
+// Inter-annotator agreement over text annotations. The response is cut into units
+// (non-whitespace characters or word tokens); each annotator gives every unit one label:
+// the level of the heaviest annotation covering it, or NO_LABEL. Leaving text unmarked
+// is a decision too, so NO_LABEL takes part in every statistic like any level.
+export type AgreementUnit = 'character' | 'token';
+
+export const AGREEMENT_UNITS: { id: AgreementUnit; label: string }[] = [
+  { id: 'token', label: 'Tokens' },
+  { id: 'character', label: 'Characters' }
+];
+
+export const NO_LABEL = '';
+
+export interface TextSegment {
+  start: number;
+  end: number;
+}
+
+export interface PairAgreement {
+  first: string;
+  second: string;
+  kappa: number | null;
+}
+
+export interface Disagreement extends TextSegment {
+  // Label per annotator id
+  labels: Record<string, string>;
+}
+
+export interface AgreementReport {
+  annotatorIds: string[];
+  segments: TextSegment[];
+  // Label of every segment, per annotator id
+  ratings: Record<string, string[]>;
+  alpha: number | null;
+  pairs: PairAgreement[];
+  disagreements: Disagreement[];
+}
+
+const tokenSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'word' })
+  : null;
+
+export const segmentUnits = (content: string, unit: AgreementUnit): TextSegment[] => {
+  // Character units are UTF-16 code units, like annotation offsets
+  if (unit === 'character') {
+    const segments: TextSegment[] = [];
+    for (let i = 0; i < content.length; i++) {
+      if (content[i].trim()) segments.push({ start: i, end: i + 1 });
+    }
+    return segments;
+  }
+  if (tokenSegmenter) {
+    return Array.from(tokenSegmenter.segment(content))
+      .filter(segment => segment.isWordLike)
+      .map(segment => ({ start: segment.index, end: segment.index + segment.segment.length }));
+  }
+  return Array.from(content.matchAll(/\S+/g), match => ({ start: match.index, end: match.index + match[0].length }));
+};
+
+// Label of every character for one annotator's annotations; heavier levels win overlaps
+const labelCharacters = (content: string, annotations: Annotation[], scale: RelevanceScale): string[] => {
+  const labels = new Array<string>(content.length).fill(NO_LABEL);
+  annotations
+    .filter(annotation => !annotation.orphaned)
+    .sort((a, b) => resolveLevel(scale, a.relevanceLevel).weight - resolveLevel(scale, b.relevanceLevel).weight)
+    .forEach(annotation => labels.fill(annotation.relevanceLevel, annotation.startIndex, Math.min(annotation.endIndex, content.length)));
+  return labels;
+};
+
+// A multi-character unit takes the label covering most of it
+const majorityLabel = (labels: string[]): string => {
+  const counts = new Map<string, number>();
+  labels.forEach(label => counts.set(label, (counts.get(label) ?? 0) + 1));
+  return Array.from(counts).reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+};
+
+export const labelSegments = (
+  content: string,
+  segments: TextSegment[],
+  annotations: Annotation[],
+  scale: RelevanceScale
+): string[] => {
+  const characters = labelCharacters(content, annotations, scale);
+  return segments.map(segment => majorityLabel(characters.slice(segment.start, segment.end)));
+};
+
+const distribution = (labels: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  labels.forEach(label => counts.set(label, (counts.get(label) ?? 0) + 1));
+  return counts;
+};
+
+// Cohen's kappa for two annotators; null when chance agreement is already perfect
+export const cohensKappa = (first: string[], second: string[]): number | null => {
+  const total = first.length;
+  if (total === 0) return null;
+
+  const observed = first.filter((label, index) => label === second[index]).length / total;
+  const firstCounts = distribution(first);
+  const secondCounts = distribution(second);
+  const expected = Array.from(firstCounts).reduce(
+    (sum, [label, count]) => sum + (count / total) * ((secondCounts.get(label) ?? 0) / total),
+    0
+  );
+  return expected === 1 ? null : (observed - expected) / (1 - expected);
+};
+
+// Krippendorff's alpha (nominal) for any number of annotators who all labelled every unit;
+// ratings[annotator][unit]. Null when every label in the data is the same.
+export const krippendorffAlpha = (ratings: string[][]): number | null => {
+  const annotatorCount = ratings.length;
+  const unitCount = ratings[0]?.length ?? 0;
+  if (annotatorCount < 2 || unitCount === 0) return null;
+
+  // Coincidence counts: every ordered pair of labels given to the same unit, weighted 1 / (m - 1)
+  const labelTotals = new Map<string, number>();
+  let disagreeingPairs = 0;
+  for (let unit = 0; unit < unitCount; unit++) {
+    const unitCounts = distribution(ratings.map(annotatorRatings => annotatorRatings[unit]));
+    unitCounts.forEach((count, label) => {
+      labelTotals.set(label, (labelTotals.get(label) ?? 0) + count);
+      disagreeingPairs += (count * (annotatorCount - count)) / (annotatorCount - 1);
+    });
+  }
+
+  const total = unitCount * annotatorCount;
+  const totals = Array.from(labelTotals.values());
+  const expectedPairs = totals.reduce((sum, count) => sum + count * (total - count), 0);
+  if (expectedPairs === 0) return null;
+  return 1 - ((total - 1) * disagreeingPairs) / expectedPairs;
+};
+
+// counts[i][j]: units the first annotator labelled labels[i] and the second labels[j]
+export const confusionMatrix = (first: string[], second: string[], labels: string[]): number[][] => {
+  const index = new Map(labels.map((label, i) => [label, i]));
+  const counts = labels.map(() => labels.map(() => 0));
+  first.forEach((label, unit) => {
+    const row = index.get(label);
+    const column = index.get(second[unit]);
+    if (row !== undefined && column !== undefined) counts[row][column]++;
+  });
+  return counts;
+};
+
+// Runs of units where not everyone gave the same label, merged while the labels stay the same
+export const findDisagreements = (segments: TextSegment[], ratings: Record<string, string[]>): Disagreement[] => {
+  const annotatorIds = Object.keys(ratings);
+  const disagreements: Disagreement[] = [];
+  let signature: string | null = null;
+
+  segments.forEach((segment, unit) => {
+    const labels = Object.fromEntries(annotatorIds.map(id => [id, ratings[id][unit]]));
+    const values = Object.values(labels);
+    if (values.every(label => label === values[0])) {
+      signature = null;
+      return;
+    }
+    const unitSignature = JSON.stringify(values);
+    const last = disagreements[disagreements.length - 1];
+    if (last && unitSignature === signature) {
+      last.end = segment.end;
+    } else {
+      disagreements.push({ start: segment.start, end: segment.end, labels });
+    }
+    signature = unitSignature;
+  });
+  return disagreements;
+};
+
+// Every annotator with at least one anchored text annotation takes part. The gold layer is
+// the outcome of adjudication rather than a rater, so it is left out.
+export const computeAgreement = (
+  content: string,
+  annotations: Annotation[],
+  scale: RelevanceScale,
+  unit: AgreementUnit
+): AgreementReport => {
+  const anchored = annotations.filter(annotation => !annotation.orphaned && annotatorIdOf(annotation) !== GOLD_ANNOTATOR.id);
+  const annotatorIds = Array.from(new Set(anchored.map(annotatorIdOf)));
+  const segments = segmentUnits(content, unit);
+  const ratings = Object.fromEntries(annotatorIds.map(id => [
+    id,
+    labelSegments(content, segments, anchored.filter(annotation => annotatorIdOf(annotation) === id), scale)
+  ]));
+
+  const pairs: PairAgreement[] = [];
+  annotatorIds.forEach((first, i) => annotatorIds.slice(i + 1).forEach(second => {
+    pairs.push({ first, second, kappa: cohensKappa(ratings[first], ratings[second]) });
+  }));
+
+  return {
+    annotatorIds,
+    segments,
+    ratings,
+    alpha: krippendorffAlpha(annotatorIds.map(id => ratings[id])),
+    pairs,
+    disagreements: findDisagreements(segments, ratings)
+  };
+};
+
+// Landis & Koch bands, the usual shorthand for kappa and alpha values
+export const describeAgreement = (value: number | null): string => {
+  if (value === null) return 'Undefined';
+  if (value < 0) return 'Worse than chance';
+  if (value <= 0.2) return 'Slight';
+  if (value <= 0.4) return 'Fair';
+  if (value <= 0.6) return 'Moderate';
+  if (value <= 0.8) return 'Substantial';
+  return 'Almost perfect';
+};
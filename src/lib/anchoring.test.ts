@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { Annotation } from '@/components/AnnotationInterface';
+import { captureAnchor, remapAnnotations } from './anchoring';
+
+const annotate = (content: string, quote: string, occurrence = 0): Annotation => {
+  let start = -1;
+  for (let i = 0; i <= occurrence; i++) start = content.indexOf(quote, start + 1);
+  return {
+    id: `a-${quote}`,
+    startIndex: start,
+    endIndex: start + quote.length,
+    relevanceLevel: 'high',
+    ...captureAnchor(content, start, start + quote.length)
+  };
+};
+
+const quoteOf = (content: string, annotation: Annotation) => content.slice(annotation.startIndex, annotation.endIndex);
+
+describe('remapAnnotations', () => {
+  const before = 'The cat sat on the mat. The dog slept by the door.';
+
+  it('shifts annotations after an edit and leaves earlier ones alone', () => {
+    const cat = annotate(before, 'cat');
+    const dog = annotate(before, 'dog');
+    const after = before.replace('sat on', 'was sitting on');
+    const [remappedCat, remappedDog] = remapAnnotations([cat, dog], before, after);
+    expect(remappedCat).toBe(cat);
+    expect(quoteOf(after, remappedDog)).toBe('dog');
+  });
+
+  it('stretches an annotation around text typed inside it', () => {
+    const phrase = annotate(before, 'cat sat on');
+    const after = before.replace('cat sat', 'cat quietly sat');
+    const [remapped] = remapAnnotations([phrase], before, after);
+    expect(quoteOf(after, remapped)).toBe('cat quietly sat on');
+    expect(remapped.text).toBe('cat quietly sat on');
+  });
+
+  it('re-anchors a quote by its context when the edit cuts across it', () => {
+    const content = 'Intro text here. The key result holds. More text follows.';
+    const quote = annotate(content, 'key result');
+    // The changed range covers the quote, so it has to be found again by its text and context
+    const after = 'A new intro. More text follows. The key result holds.';
+    const [remapped] = remapAnnotations([quote], content, after);
+    expect(remapped.orphaned).toBeUndefined();
+    expect(quoteOf(after, remapped)).toBe('key result');
+  });
+
+  it('picks the occurrence whose context matches, not the first one', () => {
+    const content = 'Use the tool. Then use the tool again carefully.';
+    const second = annotate(content, 'the tool', 1);
+    const after = content.replace('Then use', 'Then, later, use');
+    const [remapped] = remapAnnotations([second], content, after);
+    expect(remapped.startIndex).toBe(after.lastIndexOf('the tool'));
+  });
+
+  it('orphans an annotation whose quote was deleted, and restores it when the quote returns', () => {
+    const dog = annotate(before, 'dog slept');
+    const deleted = before.replace('The dog slept by the door.', '');
+    const [orphan] = remapAnnotations([dog], before, deleted);
+    expect(orphan.orphaned).toBe(true);
+    expect(orphan.startIndex).toBe(orphan.endIndex);
+    expect(orphan.startIndex).toBeLessThanOrEqual(deleted.length);
+
+    const [restored] = remapAnnotations([orphan], deleted, before);
+    expect(restored.orphaned).toBeUndefined();
+    expect(quoteOf(before, restored)).toBe('dog slept');
+  });
+
+  it('returns the same list when nothing changed', () => {
+    const annotations = [annotate(before, 'mat')];
+    expect(remapAnnotations(annotations, before, before)).toBe(annotations);
+  });
+});
@@ -0,0 +1,126 @@
+import type { Annotation } from '@/components/AnnotationInterface';
+
+// Characters of surrounding text stored with each annotation to disambiguate its quote
+const ANCHOR_CONTEXT_LENGTH = 32;
+// Context characters that must agree before a relocated quote is trusted
+const MIN_CONTEXT_MATCH = 8;
+
+interface TextEdit {
+  start: number;
+  // End of the replaced range in the old text
+  oldEnd: number;
+  // End of the inserted range in the new text
+  newEnd: number;
+}
+
+export const captureAnchor = (content: string, startIndex: number, endIndex: number) => ({
+  text: content.slice(startIndex, endIndex),
+  prefix: content.slice(Math.max(0, startIndex - ANCHOR_CONTEXT_LENGTH), startIndex),
+  suffix: content.slice(endIndex, endIndex + ANCHOR_CONTEXT_LENGTH)
+});
+
+// Reduce two versions of the text to the single range that changed between them
+const findEdit = (before: string, after: string): TextEdit => {
+  let start = 0;
+  const maxStart = Math.min(before.length, after.length);
+  while (start < maxStart && before[start] === after[start]) start++;
+
+  let oldEnd = before.length;
+  let newEnd = after.length;
+  while (oldEnd > start && newEnd > start && before[oldEnd - 1] === after[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  return { start, oldEnd, newEnd };
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+// Find the occurrence of the annotation's quote whose surrounding text best matches
+// the stored prefix/suffix, preferring the one nearest to where it is expected.
+// Occurrences in an unrelated context are rejected rather than guessed at.
+const locateQuote = (content: string, annotation: Annotation, expectedStart: number): number => {
+  if (!annotation.text) return -1;
+
+  const requiredMatch = Math.min(MIN_CONTEXT_MATCH, (annotation.prefix ?? '').length + (annotation.suffix ?? '').length);
+  let bestStart = -1;
+  let bestScore = -Infinity;
+  let index = content.indexOf(annotation.text);
+  while (index !== -1) {
+    const end = index + annotation.text.length;
+    const prefixScore = commonSuffixLength(annotation.prefix ?? '', content.slice(Math.max(0, index - ANCHOR_CONTEXT_LENGTH), index));
+    const suffixScore = commonPrefixLength(annotation.suffix ?? '', content.slice(end, end + ANCHOR_CONTEXT_LENGTH));
+    const distancePenalty = Math.abs(index - expectedStart) / Math.max(1, content.length);
+    const score = prefixScore + suffixScore - distancePenalty;
+    if (prefixScore + suffixScore >= requiredMatch && score > bestScore) {
+      bestScore = score;
+      bestStart = index;
+    }
+    index = content.indexOf(annotation.text, index + 1);
+  }
+
+  return bestStart;
+};
+
+const reanchor = (annotation: Annotation, content: string, startIndex: number, endIndex: number): Annotation => ({
+  ...annotation,
+  ...captureAnchor(content, startIndex, endIndex),
+  startIndex,
+  endIndex,
+  orphaned: undefined
+});
+
+const relocate = (annotation: Annotation, content: string, expectedStart: number): Annotation => {
+  const start = locateQuote(content, annotation, expectedStart);
+  if (start === -1) {
+    const clampedStart = Math.min(Math.max(0, expectedStart), content.length);
+    return { ...annotation, startIndex: clampedStart, endIndex: clampedStart, orphaned: true };
+  }
+  return reanchor(annotation, content, start, start + annotation.text.length);
+};
+
+// Map every annotation from the old text onto the edited text. Ranges outside the edit
+// shift, edits inside a range stretch it, and ranges cut by the edit are searched for
+// by quote and context; when the quote is gone the annotation is flagged as orphaned.
+export const remapAnnotations = (annotations: Annotation[], before: string, after: string): Annotation[] => {
+  if (before === after) return annotations;
+
+  const edit = findEdit(before, after);
+  const delta = edit.newEnd - edit.oldEnd;
+
+  return annotations.map(annotation => {
+    const { startIndex, endIndex } = annotation;
+
+    if (annotation.orphaned) {
+      return locateQuote(after, annotation, startIndex) === -1 ? annotation : relocate(annotation, after, startIndex);
+    }
+
+    if (edit.oldEnd <= startIndex) {
+      return { ...annotation, startIndex: startIndex + delta, endIndex: endIndex + delta };
+    }
+
+    if (edit.start >= endIndex) {
+      return annotation;
+    }
+
+    if (edit.start >= startIndex && edit.oldEnd <= endIndex) {
+      const newEnd = endIndex + delta;
+      if (newEnd > startIndex) {
+        return reanchor(annotation, after, startIndex, newEnd);
+      }
+    }
+
+    return relocate(annotation, after, startIndex <= edit.start ? startIndex : edit.newEnd);
+  });
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { Annotation } from '@/components/AnnotationInterface';
+import { applyOverlapPolicy, coverageByLevel, eraseRange, normalizeAnnotations } from './annotation-overlap';
+import { DEFAULT_SCALE } from './relevance-scale';
+
+const content = 'alpha beta gamma delta epsilon';
+
+const mark = (id: string, quote: string, relevanceLevel = 'high', extra: Partial<Annotation> = {}): Annotation => {
+  const startIndex = content.indexOf(quote);
+  return { id, startIndex, endIndex: startIndex + quote.length, relevanceLevel, text: quote, ...extra };
+};
+
+const spans = (annotations: Annotation[]) =>
+  annotations.map(a => `${a.id}:${content.slice(a.startIndex, a.endIndex)}:${a.relevanceLevel}`);
+
+describe('applyOverlapPolicy', () => {
+  const older = mark('old', 'alpha beta gamma delta', 'low');
+
+  it('split: the newer annotation cuts the older one in two', () => {
+    const result = applyOverlapPolicy([older], mark('new', 'gamma', 'high'), 'split', content);
+    expect(spans(result)).toEqual(['old:alpha beta:low', 'old-16:delta:low', 'new:gamma:high']);
+    // The pieces are re-anchored to their own text
+    expect(result[1].text).toBe('delta');
+  });
+
+  it('split: an older annotation covered entirely is dropped', () => {
+    const result = applyOverlapPolicy([mark('old', 'beta')], mark('new', 'alpha beta gamma'), 'split', content);
+    expect(spans(result)).toEqual(['new:alpha beta gamma:high']);
+  });
+
+  it('merge: same-level neighbours separated by whitespace join, keeping comments and issues', () => {
+    const result = applyOverlapPolicy(
+      [mark('a', 'alpha', 'high', { comment: 'first', issues: ['tone'] }), mark('b', 'epsilon', 'high')],
+      mark('c', 'beta', 'high', { comment: 'second', issues: ['tone', 'facts'] }),
+      'merge',
+      content
+    );
+    expect(spans(result)).toEqual(['b:epsilon:high', 'c:alpha beta:high']);
+    expect(result[1].comment).toBe('first · second');
+    expect(result[1].issues).toEqual(['tone', 'facts']);
+  });
+
+  it('merge: other levels are split as under the split policy', () => {
+    const result = applyOverlapPolicy([older], mark('new', 'beta gamma', 'high'), 'merge', content);
+    expect(spans(result)).toEqual(['old:alpha:low', 'old-16:delta:low', 'new:beta gamma:high']);
+  });
+
+  it('layer: overlaps are kept and only exact duplicates are replaced', () => {
+    const layered = applyOverlapPolicy([older], mark('new', 'gamma', 'high'), 'layer', content);
+    expect(spans(layered)).toEqual(['old:alpha beta gamma delta:low', 'new:gamma:high']);
+
+    const duplicate = applyOverlapPolicy(layered, mark('again', 'gamma', 'high'), 'layer', content);
+    expect(spans(duplicate)).toEqual(['old:alpha beta gamma delta:low', 'again:gamma:high']);
+  });
+
+  it("never touches another annotator's marks", () => {
+    const theirs = mark('theirs', 'alpha beta gamma', 'low', { annotatorId: 'ann-2' });
+    const result = applyOverlapPolicy([theirs], mark('mine', 'beta', 'high', { annotatorId: 'ann-1' }), 'split', content);
+    expect(result[0]).toBe(theirs);
+  });
+});
+
+describe('normalizeAnnotations', () => {
+  it('replays annotations in order under the new policy', () => {
+    const layered = [mark('old', 'alpha beta gamma', 'low'), mark('new', 'beta', 'high')];
+    expect(spans(normalizeAnnotations(layered, 'split', content))).toEqual(['old:alpha:low', 'old-10:gamma:low', 'new:beta:high']);
+  });
+});
+
+describe('eraseRange', () => {
+  it("trims, splits and removes the annotator's own annotations and counts each", () => {
+    const annotations = [
+      mark('trim', 'beta gamma', 'high', { annotatorId: 'me' }),
+      mark('split', content, 'low', { annotatorId: 'me' }),
+      mark('gone', 'gamma', 'medium', { annotatorId: 'me' }),
+      mark('other', 'gamma', 'high', { annotatorId: 'someone-else' })
+    ];
+    const start = content.indexOf('gamma');
+    const erased = eraseRange(annotations, start, start + 'gamma'.length, content, 'me');
+    expect(spans(erased.annotations)).toEqual(['trim:beta:high', 'split:alpha beta:low', 'split-16:delta epsilon:low', 'other:gamma:high']);
+    expect(erased).toMatchObject({ trimmed: 1, split: 1, removed: 1 });
+  });
+
+  it('reports removed annotations', () => {
+    const result = eraseRange([mark('gone', 'beta')], 0, content.length, content, 'unassigned');
+    expect(result).toEqual({ annotations: [], trimmed: 0, split: 0, removed: 1 });
+  });
+});
+
+describe('coverageByLevel', () => {
+  it('counts stacked characters once, for the heaviest level on them', () => {
+    const counts = coverageByLevel(
+      [mark('low', 'alpha beta', 'low'), mark('high', 'beta gamma', 'high'), mark('neutral', 'gamma', 'neutral')],
+      DEFAULT_SCALE,
+      content.length
+    );
+    // alpha + space: low; beta gamma: high
+    expect(counts).toEqual({ low: 6, high: 10 });
+    const covered = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    expect(covered).toBeLessThanOrEqual(content.length);
+  });
+
+  it('ignores orphaned annotations and ranges past the end of the text', () => {
+    const counts = coverageByLevel(
+      [mark('gone', 'alpha', 'high', { orphaned: true }), { ...mark('long', 'epsilon'), endIndex: content.length + 10 }],
+      DEFAULT_SCALE,
+      content.length
+    );
+    expect(counts).toEqual({ high: 'epsilon'.length });
+  });
+});
@@ -0,0 +1,156 @@
+import type { Annotation } from '@/components/AnnotationInterface';
+import { captureAnchor } from './anchoring';
+import { annotatorIdOf } from './annotators';
+import { resolveLevel, type RelevanceScale } from './relevance-scale';
+
+// How a new text annotation interacts with the ones it overlaps:
+// - split: the newer annotation wins the overlap; older ones are trimmed or split around it
+// - merge: like split, but overlapping or adjacent annotations of the same level join into one span
+// - layer: overlaps are kept and drawn stacked; only exact duplicates are replaced
+// Policies only act within one annotator's layer; other annotators' marks are never touched.
+export type OverlapPolicy = 'split' | 'merge' | 'layer';
+
+export const OVERLAP_POLICIES: { id: OverlapPolicy; label: string; description: string }[] = [
+  { id: 'split', label: 'Newer wins', description: 'Overlapped parts of older annotations are cut away' },
+  { id: 'merge', label: 'Merge same level', description: 'Touching annotations of the same level join into one span' },
+  { id: 'layer', label: 'Layered', description: 'Annotations may overlap and are drawn stacked' }
+];
+
+const isWhitespace = (text: string) => !text.trim();
+
+const sameAnnotator = (a: Annotation, b: Annotation) => annotatorIdOf(a) === annotatorIdOf(b);
+
+// Re-anchor an annotation to a narrower range, dropping surrounding whitespace.
+// Returns the annotation itself when nothing changed, or null when nothing but whitespace is left.
+const narrow = (annotation: Annotation, start: number, end: number, content: string, id = annotation.id): Annotation | null => {
+  while (start < end && isWhitespace(content[start])) start++;
+  while (end > start && isWhitespace(content[end - 1])) end--;
+  if (start >= end) return null;
+  if (id === annotation.id && start === annotation.startIndex && end === annotation.endIndex) return annotation;
+  return { ...annotation, id, startIndex: start, endIndex: end, ...captureAnchor(content, start, end) };
+};
+
+// The parts of an annotation outside [start, end); a right-hand piece only gets a new id
+// when the left-hand piece keeps the original one
+const subtractRange = (annotation: Annotation, start: number, end: number, content: string): Annotation[] => {
+  if (annotation.orphaned || annotation.endIndex <= start || annotation.startIndex >= end) return [annotation];
+  const left = annotation.startIndex < start ? narrow(annotation, annotation.startIndex, start, content) : null;
+  const right = annotation.endIndex > end
+    ? narrow(annotation, end, annotation.endIndex, content, left ? `${annotation.id}-${end}` : annotation.id)
+    : null;
+  return [left, right].filter(Boolean);
+};
+
+// Overlapping, or separated from [start, end) by nothing but whitespace
+const touches = (a: Annotation, start: number, end: number, content: string) => {
+  if (a.startIndex <= end && a.endIndex >= start) return true;
+  const gap = a.endIndex < start ? content.slice(a.endIndex, start) : content.slice(end, a.startIndex);
+  return isWhitespace(gap);
+};
+
+const mergeDetails = (annotations: Annotation[]): Pick<Annotation, 'comment' | 'issues'> => {
+  const comments = Array.from(new Set(annotations.map(a => a.comment?.trim()).filter(Boolean)));
+  const issues = Array.from(new Set(annotations.flatMap(a => a.issues ?? [])));
+  return {
+    comment: comments.length > 0 ? comments.join(' · ') : undefined,
+    issues: issues.length > 0 ? issues : undefined
+  };
+};
+
+// Add an annotation to a list that already follows the policy, keeping the result normalized
+export const applyOverlapPolicy = (
+  annotations: Annotation[],
+  incoming: Annotation,
+  policy: OverlapPolicy,
+  content: string
+): Annotation[] => {
+  if (policy === 'layer') {
+    return [
+      ...annotations.filter(a =>
+        a.orphaned || !sameAnnotator(a, incoming) ||
+        a.startIndex !== incoming.startIndex || a.endIndex !== incoming.endIndex || a.relevanceLevel !== incoming.relevanceLevel
+      ),
+      incoming
+    ];
+  }
+
+  let added = incoming;
+  let remaining = annotations;
+
+  if (policy === 'merge') {
+    // Grow the new span until no same-level neighbour touches it
+    let absorbed: Annotation[] = [];
+    do {
+      absorbed = remaining.filter(a =>
+        !a.orphaned && sameAnnotator(a, added) && a.relevanceLevel === added.relevanceLevel &&
+        touches(a, added.startIndex, added.endIndex, content)
+      );
+      if (absorbed.length > 0) {
+        const start = Math.min(added.startIndex, ...absorbed.map(a => a.startIndex));
+        const end = Math.max(added.endIndex, ...absorbed.map(a => a.endIndex));
+        added = {
+          ...added,
+          startIndex: start,
+          endIndex: end,
+          ...captureAnchor(content, start, end),
+          ...mergeDetails([...absorbed, added])
+        };
+        remaining = remaining.filter(a => !absorbed.includes(a));
+      }
+    } while (absorbed.length > 0);
+  }
+
+  return [
+    ...remaining.flatMap(a => (sameAnnotator(a, added) ? subtractRange(a, added.startIndex, added.endIndex, content) : [a])),
+    added
+  ];
+};
+
+export interface EraseResult {
+  annotations: Annotation[];
+  trimmed: number;
+  split: number;
+  removed: number;
+}
+
+// Clear a character range of one annotator's layer like an eraser: their annotations are
+// trimmed or split around it and the surviving pieces keep their level, comment and issues
+export const eraseRange = (
+  annotations: Annotation[],
+  start: number,
+  end: number,
+  content: string,
+  annotatorId: string
+): EraseResult => {
+  const result: EraseResult = { annotations: [], trimmed: 0, split: 0, removed: 0 };
+  annotations.forEach(annotation => {
+    const pieces = annotatorIdOf(annotation) === annotatorId ? subtractRange(annotation, start, end, content) : [annotation];
+    if (pieces.length === 0) result.removed++;
+    else if (pieces.length === 2) result.split++;
+    else if (pieces[0] !== annotation) result.trimmed++;
+    result.annotations.push(...pieces);
+  });
+  return result;
+};
+
+// Replay annotations in creation order under a policy, e.g. after switching policies
+export const normalizeAnnotations = (annotations: Annotation[], policy: OverlapPolicy, content: string): Annotation[] =>
+  annotations.reduce<Annotation[]>(
+    (result, annotation) => annotation.orphaned ? [...result, annotation] : applyOverlapPolicy(result, annotation, policy, content),
+    []
+  );
+
+// Characters covered per level id, counting each character once however many annotations
+// stack on it (layered or from several annotators); the heaviest level covering it wins
+export const coverageByLevel = (annotations: Annotation[], scale: RelevanceScale, length: number): Record<string, number> => {
+  const levels = new Array<string | undefined>(length);
+  annotations
+    .filter(annotation => !annotation.orphaned)
+    .sort((a, b) => resolveLevel(scale, a.relevanceLevel).weight - resolveLevel(scale, b.relevanceLevel).weight)
+    .forEach(annotation => levels.fill(annotation.relevanceLevel, annotation.startIndex, Math.min(annotation.endIndex, length)));
+  const counts: Record<string, number> = {};
+  levels.forEach(level => {
+    counts[level] = (counts[level] ?? 0) + 1;
+  });
+  return counts;
+};
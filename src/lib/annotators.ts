@@ -0,0 +1,107 @@
+import { DEFAULT_REVIEWER_NAME } from './comment-thread';
+
+// Annotators are the people whose marks a session holds. Annotations and canvas strokes
+// store their annotator's id; the session keeps each annotator's name and layer colour.
+export interface Annotator {
+  id: string;
+  name: string;
+  // Hex colour of the annotator's layer, e.g. #8b5cf6
+  color: string;
+}
+
+// PNG data URLs of the canvas ink, one layer per annotator id
+export type InkLayers = Record<string, string>;
+
+// Owner of annotations and ink made before annotators were tracked
+export const UNASSIGNED_ANNOTATOR: Annotator = { id: 'unassigned', name: 'Unassigned', color: '#9ca3af' };
+
+// Layer holding adjudicated gold labels; it is not a person and is never annotated as
+export const GOLD_ANNOTATOR: Annotator = { id: 'gold', name: 'Gold', color: '#eab308' };
+
+export const ANNOTATOR_COLORS = ['#8b5cf6', '#0ea5e9', '#10b981', '#f59e0b', '#ec4899', '#14b8a6', '#6366f1', '#84cc16'];
+
+// The annotator working in this browser, kept across sessions
+const LOCAL_ANNOTATOR_KEY = 'flush.annotator';
+// Name used in discussions before they were written by annotators; it seeds the identity
+const LEGACY_REVIEWER_NAME_KEY = 'flush.reviewerName';
+
+export const generateAnnotatorId = () => `annotator-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveLocalAnnotator = (annotator: Pick<Annotator, 'id' | 'name'>) => {
+  try {
+    localStorage.setItem(LOCAL_ANNOTATOR_KEY, JSON.stringify({ id: annotator.id, name: annotator.name }));
+  } catch {
+    // Storage can be unavailable (private mode); the identity then lasts for this visit only
+  }
+};
+
+const takeLegacyReviewerName = (): string | null => {
+  try {
+    const name = localStorage.getItem(LEGACY_REVIEWER_NAME_KEY);
+    localStorage.removeItem(LEGACY_REVIEWER_NAME_KEY);
+    return name;
+  } catch {
+    return null;
+  }
+};
+
+// The identity used for marks and discussion replies alike. A reviewer name saved by older
+// versions renames an identity that still has the default name, then is removed.
+export const getLocalAnnotator = (): Pick<Annotator, 'id' | 'name'> => {
+  const legacyName = takeLegacyReviewerName();
+  let annotator: Pick<Annotator, 'id' | 'name'> | null = null;
+  try {
+    const stored = JSON.parse(localStorage.getItem(LOCAL_ANNOTATOR_KEY) ?? 'null');
+    if (stored && typeof stored.id === 'string' && typeof stored.name === 'string') annotator = stored;
+  } catch {
+    // Fall through to a new identity
+  }
+  if (annotator && !(legacyName && annotator.name === DEFAULT_REVIEWER_NAME)) return annotator;
+
+  annotator = { id: annotator?.id ?? generateAnnotatorId(), name: legacyName || DEFAULT_REVIEWER_NAME };
+  saveLocalAnnotator(annotator);
+  return annotator;
+};
+
+export const annotatorIdOf = (item: { annotatorId?: string }): string => item.annotatorId ?? UNASSIGNED_ANNOTATOR.id;
+
+export const resolveAnnotator = (annotators: Annotator[], id: string): Annotator =>
+  annotators.find(annotator => annotator.id === id)
+  ?? (id === UNASSIGNED_ANNOTATOR.id ? UNASSIGNED_ANNOTATOR
+    : id === GOLD_ANNOTATOR.id ? GOLD_ANNOTATOR
+    : { ...UNASSIGNED_ANNOTATOR, id, name: 'Unknown annotator' });
+
+// Add an annotator to a session's list with the first unused colour, or refresh their name
+export const withAnnotator = (annotators: Annotator[], annotator: Pick<Annotator, 'id' | 'name'>): Annotator[] => {
+  const existing = annotators.find(a => a.id === annotator.id);
+  if (existing) {
+    return existing.name === annotator.name
+      ? annotators
+      : annotators.map(a => (a.id === annotator.id ? { ...a, name: annotator.name } : a));
+  }
+  const used = new Set(annotators.map(a => a.color));
+  const color = ANNOTATOR_COLORS.find(c => !used.has(c)) ?? ANNOTATOR_COLORS[annotators.length % ANNOTATOR_COLORS.length];
+  return [...annotators, { id: annotator.id, name: annotator.name, color }];
+};
+
+// Replace one annotator's ink layer; an empty result is stored as no ink at all
+export const setInkLayer = (layers: InkLayers | undefined, annotatorId: string, ink?: string): InkLayers | undefined => {
+  if (layers?.[annotatorId] === ink) return layers;
+  const { [annotatorId]: _previous, ...others } = layers ?? {};
+  const updated = ink ? { ...others, [annotatorId]: ink } : others;
+  return Object.keys(updated).length > 0 ? updated : undefined;
+};
+
+// Everyone with marks in a session, in the session's order, plus the unassigned layer when it is used
+export const annotatorsInUse = (
+  annotators: Annotator[],
+  items: { annotatorId?: string }[],
+  ink?: InkLayers
+): Annotator[] => {
+  const ids = new Set([...items.map(annotatorIdOf), ...Object.keys(ink ?? {})]);
+  const known = annotators.filter(annotator => ids.has(annotator.id));
+  const unknown = Array.from(ids)
+    .filter(id => !annotators.some(annotator => annotator.id === id))
+    .map(id => resolveAnnotator(annotators, id));
+  return [...known, ...unknown];
+};
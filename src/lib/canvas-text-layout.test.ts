@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { CANVAS_TEXT_LAYOUT, hitTestStroke, layoutText, pageOf, paginateLayout } from './canvas-text-layout';
+
+// Every character is 10px wide
+const measure = (text: string) => text.length * 10;
+
+describe('layoutText', () => {
+  it('places words and glyphs at their offsets in the response', () => {
+    const layout = layoutText('alpha beta gamma', measure);
+    expect(layout.lines).toHaveLength(1);
+    expect(layout.words.map(({ start, end, x }) => ({ start, end, x }))).toEqual([
+      { start: 0, end: 5, x: 80 },
+      { start: 6, end: 10, x: 140 },
+      { start: 11, end: 16, x: 190 }
+    ]);
+    expect(layout.words[1].glyphs.map(glyph => glyph.index)).toEqual([6, 7, 8, 9]);
+  });
+
+  it('wraps lines and starts a paragraph per newline', () => {
+    const layout = layoutText('alpha beta gamma\ndelta', measure, { ...CANVAS_TEXT_LAYOUT, maxWidth: 100 });
+    expect(layout.lines.map(line => [line.text, line.start, line.y])).toEqual([
+      ['alpha ', 0, 80],
+      ['beta ', 6, 108],
+      ['gamma ', 11, 136],
+      ['delta ', 17, 136 + 28 + 28 * 0.6]
+    ]);
+  });
+});
+
+describe('hitTestStroke', () => {
+  const layout = layoutText('alpha beta gamma', measure);
+
+  it('returns the characters a stroke passes over', () => {
+    expect(hitTestStroke(layout, [{ x: 145, y: 90 }, { x: 175, y: 90 }], 2)).toEqual({ start: 6, end: 10 });
+  });
+
+  it('fills in fast strokes so no glyph is skipped', () => {
+    expect(hitTestStroke(layout, [{ x: 85, y: 90 }, { x: 235, y: 90 }], 2)).toEqual({ start: 0, end: 16 });
+  });
+
+  it('is null for strokes beside the text', () => {
+    expect(hitTestStroke(layout, [{ x: 145, y: 300 }, { x: 175, y: 300 }], 2)).toBeNull();
+  });
+});
+
+describe('paginateLayout', () => {
+  const { y: margin, lineHeight } = CANVAS_TEXT_LAYOUT;
+  const content = Array.from({ length: 40 }, (_, i) => `Paragraph ${i} with some words`).join('\n');
+  const layout = layoutText(content, measure);
+  const pages = paginateLayout(layout, 600);
+
+  it('fits every line inside its page margins', () => {
+    expect(pages.length).toBeGreaterThan(1);
+    pages.forEach(page => {
+      expect(page.lines[0].y).toBe(margin);
+      page.lines.forEach(line => expect(line.y + lineHeight).toBeLessThanOrEqual(600 - margin));
+    });
+  });
+
+  it('keeps every line and its offset into the response', () => {
+    expect(pages.flatMap(page => page.lines.map(line => line.start))).toEqual(layout.lines.map(line => line.start));
+    expect(pages.flatMap(page => page.words.map(word => word.start))).toEqual(layout.words.map(word => word.start));
+  });
+
+  it('moves words up with their lines', () => {
+    const second = pages[1];
+    const word = second.words[0];
+    expect(word.y).toBe(second.lines.find(line => line.start <= word.start)?.y);
+  });
+
+  it('gives empty text one empty page', () => {
+    expect(paginateLayout(layoutText('', measure), 600)).toEqual([{ lines: [], words: [], height: margin }]);
+  });
+});
+
+describe('pageOf', () => {
+  it('puts strokes without a page on the first page', () => {
+    expect(pageOf({})).toBe(0);
+    expect(pageOf({ page: 2 })).toBe(2);
+  });
+});
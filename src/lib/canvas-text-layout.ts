@@ -0,0 +1,221 @@
+import type { TextRange } from './selection-snap';
+
+// Where the canvas draws each word and glyph of the response, so ink can be mapped back to
+// the text it covers. Offsets are UTF-16 indices into the response, like text annotations.
+
+export interface GlyphBox {
+  index: number;
+  x: number;
+  width: number;
+}
+
+export interface WordBox {
+  start: number;
+  end: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  glyphs: GlyphBox[];
+}
+
+// One wrapped line as drawn with fillText (top baseline)
+export interface TextLine {
+  text: string;
+  start: number;
+  x: number;
+  y: number;
+}
+
+export interface TextLayout {
+  lines: TextLine[];
+  words: WordBox[];
+  // Bottom of the last line
+  height: number;
+}
+
+export interface TextLayoutOptions {
+  x: number;
+  y: number;
+  lineHeight: number;
+  maxWidth: number;
+  // Extra space after each paragraph, in line heights
+  paragraphSpacing: number;
+}
+
+// Size of a canvas page in canvas pixels
+export const CANVAS_PAGE_WIDTH = 1024;
+export const CANVAS_PAGE_HEIGHT = 768;
+
+export const CANVAS_TEXT_FONT = '18px -apple-system, BlinkMacSystemFont, "Inter", "Segoe UI", sans-serif';
+
+export const CANVAS_TEXT_LAYOUT: TextLayoutOptions = {
+  x: 80,
+  y: 80,
+  lineHeight: 28,
+  maxWidth: 880,
+  paragraphSpacing: 0.6
+};
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+}
+
+// Greedy word wrap on spaces, one paragraph per newline; blank paragraphs only add spacing.
+// `measure` returns the drawn width of a string (CanvasRenderingContext2D.measureText).
+export const layoutText = (
+  content: string,
+  measure: (text: string) => number,
+  options: TextLayoutOptions = CANVAS_TEXT_LAYOUT
+): TextLayout => {
+  const lines: TextLine[] = [];
+  const words: WordBox[] = [];
+  let y = options.y;
+
+  const pushLine = (text: string, start: number, lineWords: { start: number; end: number }[]) => {
+    lines.push({ text, start, x: options.x, y });
+    // Positions are measured from the line start so kerning matches the drawn line
+    const offsetOf = (index: number) => options.x + measure(content.slice(start, index));
+    lineWords.filter(word => word.end > word.start).forEach(word => {
+      const glyphs = Array.from({ length: word.end - word.start }, (_, i) => {
+        const x = offsetOf(word.start + i);
+        return { index: word.start + i, x, width: offsetOf(word.start + i + 1) - x };
+      });
+      const x = glyphs[0].x;
+      const last = glyphs[glyphs.length - 1];
+      words.push({ start: word.start, end: word.end, x, y, width: last.x + last.width - x, height: options.lineHeight, glyphs });
+    });
+  };
+
+  let paragraphStart = 0;
+  content.split('\n').forEach(paragraph => {
+    if (paragraph.trim()) {
+      let currentLine = '';
+      let lineStart = paragraphStart;
+      let lineWords: { start: number; end: number }[] = [];
+      let wordStart = paragraphStart;
+
+      paragraph.split(' ').forEach(word => {
+        const testLine = currentLine + word + ' ';
+        const wordRange = { start: wordStart, end: wordStart + word.length };
+        if (measure(testLine) > options.maxWidth && currentLine !== '') {
+          pushLine(currentLine, lineStart, lineWords);
+          currentLine = word + ' ';
+          lineStart = wordStart;
+          lineWords = [wordRange];
+          y += options.lineHeight;
+        } else {
+          currentLine = testLine;
+          lineWords.push(wordRange);
+        }
+        wordStart += word.length + 1;
+      });
+
+      if (currentLine) {
+        pushLine(currentLine, lineStart, lineWords);
+        y += options.lineHeight;
+      }
+    }
+    y += options.lineHeight * options.paragraphSpacing;
+    paragraphStart += paragraph.length + 1;
+  });
+
+  return { lines, words, height: y };
+};
+
+// Split a layout into pages of `pageHeight`, with the layout's top margin above and below the
+// text of every page. Lines move up to their page's top; offsets into the response are kept,
+// so strokes on any page still map to the right text. There is always at least one page.
+export const paginateLayout = (
+  layout: TextLayout,
+  pageHeight: number,
+  options: TextLayoutOptions = CANVAS_TEXT_LAYOUT
+): TextLayout[] => {
+  const bottom = pageHeight - options.y;
+  const pages: TextLayout[] = [];
+  // Page and upward shift of each line, by its y in the unpaginated layout
+  const placement = new Map<number, { page: number; shift: number }>();
+
+  let shift = 0;
+  layout.lines.forEach(line => {
+    const current = pages[pages.length - 1];
+    // A line that fits on no page still gets a page of its own
+    if (!current || (line.y - shift + options.lineHeight > bottom && current.lines.length > 0)) {
+      shift = line.y - options.y;
+      pages.push({ lines: [], words: [], height: options.y });
+    }
+    const page = pages[pages.length - 1];
+    page.lines.push({ ...line, y: line.y - shift });
+    page.height = line.y - shift + options.lineHeight;
+    placement.set(line.y, { page: pages.length - 1, shift });
+  });
+
+  layout.words.forEach(word => {
+    const { page, shift: wordShift } = placement.get(word.y);
+    pages[page].words.push({ ...word, y: word.y - wordShift });
+  });
+
+  return pages.length > 0 ? pages : [{ lines: [], words: [], height: options.y }];
+};
+
+// Page a canvas stroke was drawn on; strokes from before pagination are on the first page
+export const pageOf = (annotation: { page?: number }): number => annotation.page ?? 0;
+
+export const drawTextLayout = (ctx: CanvasRenderingContext2D, layout: TextLayout) => {
+  layout.lines.forEach(line => ctx.fillText(line.text, line.x, line.y));
+};
+
+// Paint one page of the response on a white canvas page; returns that page's layout, so strokes
+// can be mapped to the text they cover, and how many pages the response takes
+export const paintTextPage = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  pageIndex: number
+): { layout: TextLayout; pageCount: number } => {
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+  ctx.fillStyle = '#1a1a1a';
+  ctx.font = CANVAS_TEXT_FONT;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+
+  const pages = paginateLayout(layoutText(text, value => ctx.measureText(value).width), ctx.canvas.height);
+  const layout = pages[Math.min(pageIndex, pages.length - 1)];
+  drawTextLayout(ctx, layout);
+  return { layout, pageCount: pages.length };
+};
+
+// Fill in points along each segment so fast strokes, which report few points, do not skip glyphs
+const densify = (points: StrokePoint[], step: number): StrokePoint[] =>
+  points.flatMap((point, i) => {
+    const previous = points[i - 1];
+    if (!previous) return [point];
+    const distance = Math.hypot(point.x - previous.x, point.y - previous.y);
+    const count = Math.max(1, Math.ceil(distance / step));
+    return Array.from({ length: count }, (_, k) => ({
+      x: previous.x + ((point.x - previous.x) * (k + 1)) / count,
+      y: previous.y + ((point.y - previous.y) * (k + 1)) / count
+    }));
+  });
+
+// The range from the first to the last character whose glyph the stroke touches, in reading
+// order; `radius` is half the stroke width. Null when the stroke misses the text.
+export const hitTestStroke = (layout: TextLayout, points: StrokePoint[], radius: number): TextRange | null => {
+  const samples = densify(points, Math.max(2, radius));
+  const touches = (x: number, y: number, width: number, height: number) =>
+    samples.some(p => p.x >= x - radius && p.x <= x + width + radius && p.y >= y - radius && p.y <= y + height + radius);
+
+  let start = Infinity;
+  let end = -Infinity;
+  layout.words.forEach(word => {
+    if (!touches(word.x, word.y, word.width, word.height)) return;
+    word.glyphs.forEach(glyph => {
+      if (!touches(glyph.x, word.y, glyph.width, word.height)) return;
+      start = Math.min(start, glyph.index);
+      end = Math.max(end, glyph.index + 1);
+    });
+  });
+  return start < end ? { start, end } : null;
+};
@@ -0,0 +1,44 @@
+import type { Annotation, AnnotationComment } from '@/components/AnnotationInterface';
+import type { Annotator } from './annotators';
+
+export const DEFAULT_REVIEWER_NAME = 'Reviewer';
+
+const generateCommentId = () => `comment-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Replies are written by an annotator; the name is kept too, for readers without the annotator list
+export const addReply = (annotation: Annotation, author: Pick<Annotator, 'id' | 'name'>, body: string): Annotation => ({
+  ...annotation,
+  thread: [
+    ...(annotation.thread ?? []),
+    {
+      id: generateCommentId(),
+      author: author.name.trim() || DEFAULT_REVIEWER_NAME,
+      authorId: author.id,
+      body: body.trim(),
+      createdAt: Date.now()
+    }
+  ]
+});
+
+export const editReply = (annotation: Annotation, commentId: string, body: string): Annotation => ({
+  ...annotation,
+  thread: (annotation.thread ?? []).map(comment =>
+    comment.id === commentId ? { ...comment, body: body.trim(), editedAt: Date.now() } : comment
+  )
+});
+
+export const deleteReply = (annotation: Annotation, commentId: string): Annotation => {
+  const thread = (annotation.thread ?? []).filter(comment => comment.id !== commentId);
+  return { ...annotation, thread: thread.length > 0 ? thread : undefined };
+};
+
+export const setThreadResolved = (annotation: Annotation, resolved: boolean): Annotation => ({
+  ...annotation,
+  resolved: resolved || undefined
+});
+
+// The annotation's note followed by its replies, for places that show the whole discussion
+export const threadMessages = (annotation: Annotation): string[] => [
+  ...(annotation.comment ? [annotation.comment] : []),
+  ...(annotation.thread ?? []).map((comment: AnnotationComment) => comment.body)
+];
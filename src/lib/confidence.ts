@@ -0,0 +1,34 @@
+// How sure the annotator was of a mark, from 0 to 1. It comes from pen pressure on the canvas
+// and from the confidence slider in text mode. Marks without one (made with a mouse or finger,
+// or before confidence was recorded) count as fully confident.
+export const FULL_CONFIDENCE = 1;
+
+export const confidenceOf = (item: { confidence?: number }): number => item.confidence ?? FULL_CONFIDENCE;
+
+export const clampConfidence = (value: number): number => Math.min(1, Math.max(0, value));
+
+// Mean pen pressure over a stroke; undefined when the pointer reported none
+export const confidenceFromPressure = (samples: number[]): number | undefined => {
+  const pressed = samples.filter(sample => sample > 0);
+  if (pressed.length === 0) return undefined;
+  return clampConfidence(pressed.reduce((sum, sample) => sum + sample, 0) / pressed.length);
+};
+
+export const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)}%`;
+
+// Wording used in refinement instructions and tooltips
+export const describeConfidence = (confidence: number): string =>
+  confidence >= 0.75 ? 'confident' : confidence >= 0.4 ? 'fairly sure' : 'tentative';
+
+export const totalConfidence = (items: { confidence?: number }[]): number =>
+  items.reduce((sum, item) => sum + confidenceOf(item), 0);
+
+// Confidence-weighted mean of a value; 0 for no items
+export const weightedMean = <T extends { confidence?: number }>(items: T[], value: (item: T) => number): number => {
+  const total = totalConfidence(items);
+  return total > 0 ? items.reduce((sum, item) => sum + confidenceOf(item) * value(item), 0) / total : 0;
+};
+
+// Most confident first; the sort is stable, so equally confident items keep their order
+export const byConfidence = <T extends { confidence?: number }>(items: T[]): T[] =>
+  [...items].sort((a, b) => confidenceOf(b) - confidenceOf(a));
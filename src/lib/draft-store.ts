@@ -0,0 +1,28 @@
+import type { AnnotationMode } from '@/components/CombinedAnnotationInterface';
+import { DRAFTS_STORE, runRequest } from './db';
+import { withSessionDefaults, type FlushSession } from './session-store';
+
+// A single rolling snapshot of the workspace. It only exists while there is
+// unsaved work, so finding one on startup means the last visit ended uncleanly.
+export interface WorkspaceDraft {
+  id: 'current';
+  session: FlushSession;
+  activeMode: AnnotationMode;
+  savedAt: number;
+}
+
+const DRAFT_ID = 'current';
+
+export const loadDraft = async (): Promise<WorkspaceDraft | undefined> => {
+  const draft = await runRequest<WorkspaceDraft | undefined>(DRAFTS_STORE, 'readonly', store => store.get(DRAFT_ID));
+  return draft && { ...draft, session: withSessionDefaults(draft.session) };
+};
+
+export const writeDraft = async (session: FlushSession, activeMode: AnnotationMode): Promise<void> => {
+  const draft: WorkspaceDraft = { id: DRAFT_ID, session, activeMode, savedAt: Date.now() };
+  await runRequest(DRAFTS_STORE, 'readwrite', store => store.put(draft));
+};
+
+export const clearDraft = async (): Promise<void> => {
+  await runRequest(DRAFTS_STORE, 'readwrite', store => store.delete(DRAFT_ID));
+};
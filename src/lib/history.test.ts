@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { Annotation } from '@/components/AnnotationInterface';
+import {
+  createCanvasCommand,
+  createContentCommand,
+  createTextAnnotationsCommand,
+  mergeCommands,
+  type HistoryDocument
+} from './history';
+
+const annotation = (id: string, extra: Partial<Annotation> = {}): Annotation =>
+  ({ id, startIndex: 0, endIndex: 4, relevanceLevel: 'high', text: 'Text', ...extra });
+
+const doc = (textAnnotations: Annotation[], content = 'Text here'): HistoryDocument =>
+  ({ content, textAnnotations, canvasAnnotations: [] });
+
+const ids = (document: HistoryDocument) => document.textAnnotations.map(a => a.id);
+
+describe('createTextAnnotationsCommand', () => {
+  const a = annotation('a');
+  const b = annotation('b');
+
+  it('labels the step by what changed', () => {
+    expect(createTextAnnotationsCommand([a], [a, b])).toMatchObject({ type: 'annotation-create', label: 'Add 1 annotation' });
+    expect(createTextAnnotationsCommand([a, b], [])).toMatchObject({ type: 'annotation-delete', label: 'Delete 2 annotations' });
+    expect(createTextAnnotationsCommand([a], [{ ...a, relevanceLevel: 'low' }])).toMatchObject({ type: 'annotation-modify' });
+    expect(createTextAnnotationsCommand([a], [{ ...a, comment: 'Why?' }])).toMatchObject({ type: 'comment-edit', label: 'Edit comment' });
+  });
+
+  it('is null when the lists are equal', () => {
+    expect(createTextAnnotationsCommand([a], [{ ...a }])).toBeNull();
+  });
+
+  it('undoes and redoes by id, keeping changes made by later steps', () => {
+    const add = createTextAnnotationsCommand([a], [a, b]);
+    const relabel = createTextAnnotationsCommand([a, b], [{ ...a, relevanceLevel: 'low' }, b]);
+    const done = relabel.apply(add.apply(doc([a])));
+    expect(done.textAnnotations[0].relevanceLevel).toBe('low');
+
+    // Undoing the older add only takes b out; a keeps the later relabel
+    const undone = add.revert(done);
+    expect(ids(undone)).toEqual(['a']);
+    expect(undone.textAnnotations[0].relevanceLevel).toBe('low');
+
+    expect(ids(add.apply(undone))).toEqual(['a', 'b']);
+  });
+
+  it('puts a deleted annotation back where it was', () => {
+    const c = annotation('c');
+    const remove = createTextAnnotationsCommand([a, b, c], [a, c]);
+    expect(ids(remove.revert(remove.apply(doc([a, b, c]))))).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('createContentCommand', () => {
+  it('restores the text and the annotations anchored to it together', () => {
+    const before = { content: 'Text here', annotations: [annotation('a')] };
+    const after = { content: 'New text here', annotations: [annotation('a', { startIndex: 4, endIndex: 8 })] };
+    const command = createContentCommand(before, after);
+    const edited = command.apply(doc(before.annotations));
+    expect(edited).toMatchObject({ content: 'New text here', textAnnotations: after.annotations });
+    expect(command.revert(edited)).toMatchObject({ content: 'Text here', textAnnotations: before.annotations });
+  });
+});
+
+describe('createCanvasCommand', () => {
+  const stroke = { id: 's1', type: 'high', pressure: 0.5, timestamp: 1, bounds: { x: 0, y: 0, width: 1, height: 1 } };
+
+  it('swaps ink layers along with strokes', () => {
+    const command = createCanvasCommand({ annotations: [], ink: { me: 'old' } }, { annotations: [stroke], ink: { me: 'new' } });
+    expect(command.label).toBe('Draw stroke');
+    const drawn = command.apply({ ...doc([]), canvasInk: { me: 'old' } });
+    expect(drawn).toMatchObject({ canvasAnnotations: [stroke], canvasInk: { me: 'new' } });
+    expect(command.revert(drawn)).toMatchObject({ canvasAnnotations: [], canvasInk: { me: 'old' } });
+  });
+
+  it('is null when neither strokes nor ink changed', () => {
+    const ink = { me: 'same' };
+    expect(createCanvasCommand({ annotations: [stroke], ink }, { annotations: [stroke], ink })).toBeNull();
+  });
+});
+
+describe('mergeCommands', () => {
+  const typing = (from: string, to: string, timestamp: number) =>
+    ({ ...createContentCommand({ content: from, annotations: [] }, { content: to, annotations: [] }), timestamp });
+
+  it('joins quick consecutive edits into one undo step', () => {
+    const merged = mergeCommands(typing('a', 'ab', 0), typing('ab', 'abc', 500));
+    expect(merged.apply(doc([], 'a')).content).toBe('abc');
+    expect(merged.revert(doc([], 'abc')).content).toBe('a');
+  });
+
+  it('keeps edits apart after a pause or for steps that do not merge', () => {
+    expect(mergeCommands(typing('a', 'ab', 0), typing('ab', 'abc', 5000))).toBeNull();
+    const add = createTextAnnotationsCommand([], [annotation('a')]);
+    expect(mergeCommands(add, add)).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import type { Annotation } from '@/components/AnnotationInterface';
+import type { CanvasAnnotation } from '@/components/InteractiveCanvas';
+import type { InkLayers } from './annotators';
+
+// The slice of a session that undo/redo operates on
+export interface HistoryDocument {
+  content: string;
+  textAnnotations: Annotation[];
+  canvasAnnotations: CanvasAnnotation[];
+  canvasInk?: InkLayers;
+}
+
+export type HistoryCommandType =
+  | 'annotation-create'
+  | 'annotation-delete'
+  | 'annotation-modify'
+  | 'comment-edit'
+  | 'content-edit'
+  | 'canvas-stroke';
+
+export interface HistoryCommand {
+  type: HistoryCommandType;
+  label: string;
+  timestamp: number;
+  apply: <T extends HistoryDocument>(doc: T) => T;
+  revert: <T extends HistoryDocument>(doc: T) => T;
+  // Consecutive commands of the same type within a short window collapse into one step
+  mergeable?: boolean;
+}
+
+interface Identified {
+  id: string;
+}
+
+interface IndexedItem<T> {
+  item: T;
+  index: number;
+}
+
+// Minimal, id-based description of how one list turned into another
+interface ListPatch<T extends Identified> {
+  added: IndexedItem<T>[];
+  removed: IndexedItem<T>[];
+  modified: { before: T; after: T }[];
+}
+
+const MERGE_WINDOW_MS = 1000;
+
+const diffById = <T extends Identified>(before: T[], after: T[]): ListPatch<T> => {
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterIds = new Set(after.map(item => item.id));
+
+  const added: IndexedItem<T>[] = [];
+  const modified: { before: T; after: T }[] = [];
+  after.forEach((item, index) => {
+    const previous = beforeById.get(item.id);
+    if (!previous) {
+      added.push({ item, index });
+    } else if (previous !== item && JSON.stringify(previous) !== JSON.stringify(item)) {
+      modified.push({ before: previous, after: item });
+    }
+  });
+
+  const removed = before
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => !afterIds.has(item.id));
+
+  return { added, removed, modified };
+};
+
+const invertPatch = <T extends Identified>(patch: ListPatch<T>): ListPatch<T> => ({
+  added: patch.removed,
+  removed: patch.added,
+  modified: patch.modified.map(({ before, after }) => ({ before: after, after: before }))
+});
+
+const applyPatch = <T extends Identified>(list: T[], patch: ListPatch<T>): T[] => {
+  const removedIds = new Set(patch.removed.map(({ item }) => item.id));
+  const replacements = new Map(patch.modified.map(({ after }) => [after.id, after]));
+
+  const result = list
+    .filter(item => !removedIds.has(item.id))
+    .map(item => replacements.get(item.id) ?? item);
+
+  [...patch.added]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ item, index }) => {
+      result.splice(Math.min(index, result.length), 0, item);
+    });
+
+  return result;
+};
+
+const isPatchEmpty = <T extends Identified>(patch: ListPatch<T>) =>
+  patch.added.length === 0 && patch.removed.length === 0 && patch.modified.length === 0;
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count !== 1 ? 's' : ''}`;
+
+const withoutDiscussion = (annotation: Annotation) =>
+  ({ ...annotation, comment: undefined, thread: undefined, resolved: undefined });
+
+const onlyCommentsChanged = (patch: ListPatch<Annotation>) =>
+  patch.modified.every(({ before, after }) =>
+    JSON.stringify(withoutDiscussion(before)) === JSON.stringify(withoutDiscussion(after))
+  );
+
+export const createTextAnnotationsCommand = (before: Annotation[], after: Annotation[]): HistoryCommand | null => {
+  const patch = diffById(before, after);
+  if (isPatchEmpty(patch)) return null;
+
+  let type: HistoryCommandType = 'annotation-modify';
+  let label = `Modify ${pluralize(patch.modified.length, 'annotation')}`;
+  if (patch.removed.length === 0 && patch.modified.length === 0) {
+    type = 'annotation-create';
+    label = `Add ${pluralize(patch.added.length, 'annotation')}`;
+  } else if (patch.added.length === 0 && patch.modified.length === 0) {
+    type = 'annotation-delete';
+    label = `Delete ${pluralize(patch.removed.length, 'annotation')}`;
+  } else if (patch.added.length === 0 && patch.removed.length === 0 && onlyCommentsChanged(patch)) {
+    type = 'comment-edit';
+    label = 'Edit comment';
+  }
+
+  const inverse = invertPatch(patch);
+  return {
+    type,
+    label,
+    timestamp: Date.now(),
+    apply: (doc) => ({ ...doc, textAnnotations: applyPatch(doc.textAnnotations, patch) }),
+    revert: (doc) => ({ ...doc, textAnnotations: applyPatch(doc.textAnnotations, inverse) })
+  };
+};
+
+// Content edits carry the re-anchored annotations with them so both undo together
+export const createContentCommand = (
+  before: { content: string; annotations: Annotation[] },
+  after: { content: string; annotations: Annotation[] }
+): HistoryCommand | null => {
+  if (before.content === after.content) return null;
+
+  const patch = diffById(before.annotations, after.annotations);
+  const inverse = invertPatch(patch);
+  return {
+    type: 'content-edit',
+    label: 'Edit text',
+    timestamp: Date.now(),
+    apply: (doc) => ({ ...doc, content: after.content, textAnnotations: applyPatch(doc.textAnnotations, patch) }),
+    revert: (doc) => ({ ...doc, content: before.content, textAnnotations: applyPatch(doc.textAnnotations, inverse) }),
+    mergeable: true
+  };
+};
+
+export const createCanvasCommand = (
+  before: { annotations: CanvasAnnotation[]; ink?: InkLayers },
+  after: { annotations: CanvasAnnotation[]; ink?: InkLayers }
+): HistoryCommand | null => {
+  const patch = diffById(before.annotations, after.annotations);
+  if (isPatchEmpty(patch) && before.ink === after.ink) return null;
+
+  let label = 'Erase ink';
+  if (after.annotations.length === 0 && !after.ink) {
+    label = 'Clear canvas';
+  } else if (patch.added.length > 0) {
+    label = 'Draw stroke';
+  }
+
+  const inverse = invertPatch(patch);
+  return {
+    type: 'canvas-stroke',
+    label,
+    timestamp: Date.now(),
+    apply: (doc) => ({ ...doc, canvasAnnotations: applyPatch(doc.canvasAnnotations, patch), canvasInk: after.ink }),
+    revert: (doc) => ({ ...doc, canvasAnnotations: applyPatch(doc.canvasAnnotations, inverse), canvasInk: before.ink })
+  };
+};
+
+// Returns the combined command, or null when the two should stay separate undo steps
+export const mergeCommands = (previous: HistoryCommand, next: HistoryCommand): HistoryCommand | null => {
+  if (!previous.mergeable || !next.mergeable || previous.type !== next.type) return null;
+  if (next.timestamp - previous.timestamp > MERGE_WINDOW_MS) return null;
+
+  return {
+    ...next,
+    label: previous.label,
+    apply: (doc) => next.apply(previous.apply(doc)),
+    revert: (doc) => previous.revert(next.revert(doc))
+  };
+};
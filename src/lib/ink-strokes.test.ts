@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createStroke, simplifyPoints, strokeTouchesPath, type InkPoint } from './ink-strokes';
+
+const point = (x: number, y: number, t = 0, pressure = 0.5): InkPoint => ({ x, y, pressure, tiltX: 0, tiltY: 0, t });
+
+describe('simplifyPoints', () => {
+  it('reduces a straight run to its ends', () => {
+    const line = Array.from({ length: 50 }, (_, i) => point(i, i * 0.5, i));
+    expect(simplifyPoints(line)).toEqual([line[0], line[49]]);
+  });
+
+  it('keeps corners and the samples they were drawn with', () => {
+    const corner = [
+      ...Array.from({ length: 10 }, (_, i) => point(i * 10, 0, i, 0.2)),
+      ...Array.from({ length: 10 }, (_, i) => point(90, (i + 1) * 10, 10 + i, 0.9))
+    ];
+    expect(simplifyPoints(corner)).toEqual([corner[0], corner[9], corner[19]]);
+  });
+
+  it('keeps detail larger than the tolerance', () => {
+    const wobble = Array.from({ length: 9 }, (_, i) => point(i * 10, i % 2 === 0 ? 0 : 2));
+    expect(simplifyPoints(wobble)).toHaveLength(9);
+    expect(simplifyPoints(wobble, 5)).toHaveLength(2);
+  });
+});
+
+describe('createStroke', () => {
+  it('simplifies and rounds the samples', () => {
+    const stroke = createStroke('level', [point(0.123, 0.456, 0.4, 0.12345), point(10, 10, 16.6), point(20.04, 20.04, 33.3)]);
+    expect(stroke).toEqual({
+      tool: 'level',
+      points: [
+        { x: 0.1, y: 0.5, pressure: 0.123, tiltX: 0, tiltY: 0, t: 0 },
+        { x: 20, y: 20, pressure: 0.5, tiltX: 0, tiltY: 0, t: 33 }
+      ]
+    });
+  });
+});
+
+describe('strokeTouchesPath', () => {
+  const stroke = createStroke('level', [point(0, 0), point(100, 0)]);
+
+  it('detects a path crossing the ink between stored points', () => {
+    expect(strokeTouchesPath(stroke, [{ x: 50, y: 10 }], 12)).toBe(true);
+  });
+
+  it('ignores a path that stays clear of the ink', () => {
+    expect(strokeTouchesPath(stroke, [{ x: 50, y: 30 }], 12)).toBe(false);
+  });
+});
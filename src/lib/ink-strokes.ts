@@ -0,0 +1,182 @@
+import { withAlpha } from './relevance-scale';
+
+// Canvas ink as vectors. Each stroke keeps its pointer samples, so the layer can be redrawn,
+// undone, stored and exported without relying on pixels. Ink from before strokes were kept
+// this way survives as a PNG per annotator (canvasInk) drawn beneath the vector strokes.
+
+export type StrokeTool = 'magic' | 'level';
+
+export interface InkPoint {
+  // Canvas pixels
+  x: number;
+  y: number;
+  // 0–1; mouse and touch input report 0.5 while pressed
+  pressure: number;
+  // Pen tilt in degrees, -90 to 90; 0 without a pen
+  tiltX: number;
+  tiltY: number;
+  // Milliseconds since the stroke started
+  t: number;
+}
+
+export interface InkStroke {
+  tool: StrokeTool;
+  points: InkPoint[];
+}
+
+// Largest distance, in canvas pixels, a simplified stroke may stray from the drawn one
+export const SIMPLIFY_TOLERANCE = 0.75;
+
+export const ERASER_WIDTH = 24;
+
+export const inkWidth = (pressure: number): number => {
+  const pressureMultiplier = Math.max(0.6, Math.min(2.5, pressure));
+  return Math.max(6, Math.min(40, 16 * pressureMultiplier));
+};
+
+export const inkColor = (levelColor: string, pressure: number): string => {
+  const intensity = Math.max(0.2, Math.min(1, pressure));
+  return withAlpha(levelColor, 0.3 + intensity * 0.5);
+};
+
+const distanceToSegment = (p: { x: number; y: number }, a: { x: number; y: number }, b: { x: number; y: number }): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Ramer–Douglas–Peucker on the x/y path; kept points retain their pressure, tilt and time
+export const simplifyPoints = (points: InkPoint[], tolerance: number = SIMPLIFY_TOLERANCE): InkPoint[] => {
+  if (points.length < 3) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+  // An explicit stack instead of recursion, so long strokes cannot overflow
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop();
+    let farthest = -1;
+    let farthestDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+// Stored points are rounded; finer detail is below what the canvas can show
+const roundPoint = (point: InkPoint): InkPoint => ({
+  x: Math.round(point.x * 10) / 10,
+  y: Math.round(point.y * 10) / 10,
+  pressure: Math.round(point.pressure * 1000) / 1000,
+  tiltX: Math.round(point.tiltX),
+  tiltY: Math.round(point.tiltY),
+  t: Math.round(point.t)
+});
+
+export const createStroke = (tool: StrokeTool, points: InkPoint[]): InkStroke => ({
+  tool,
+  points: simplifyPoints(points).map(roundPoint)
+});
+
+// Whether a path of the given radius (e.g. the eraser) passes over the stroke's ink
+export const strokeTouchesPath = (stroke: InkStroke, path: { x: number; y: number }[], radius: number): boolean =>
+  stroke.points.some((point, i) => {
+    const previous = stroke.points[i - 1] ?? point;
+    const reach = radius + inkWidth(point.pressure) / 2;
+    return path.some(p => distanceToSegment(p, previous, point) <= reach);
+  });
+
+// Segment by segment, so width and opacity follow the pressure along the stroke
+export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: InkStroke, levelColor: string) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  stroke.points.forEach((point, i) => {
+    const previous = stroke.points[i - 1] ?? point;
+    const color = inkColor(levelColor, point.pressure);
+    const width = inkWidth(point.pressure);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = width;
+    ctx.shadowColor = color;
+    ctx.shadowBlur = width * 0.8;
+    ctx.beginPath();
+    ctx.moveTo(previous.x, previous.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+// Redraw a whole layer: the legacy ink image first, then the vector strokes in order
+export const paintInkLayer = (
+  ctx: CanvasRenderingContext2D,
+  legacyInk: HTMLImageElement | null,
+  strokes: { stroke: InkStroke; color: string }[]
+) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+  ctx.shadowBlur = 0;
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  if (legacyInk) ctx.drawImage(legacyInk, 0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.restore();
+  strokes.forEach(({ stroke, color }) => drawStroke(ctx, stroke, color));
+};
+
+// Total alpha of the pixels in a box around the path, which only erasing can lower
+const inkAlphaNear = (ctx: CanvasRenderingContext2D, path: { x: number; y: number }[]): number => {
+  const margin = ERASER_WIDTH / 2 + 1;
+  const left = Math.max(0, Math.floor(Math.min(...path.map(p => p.x)) - margin));
+  const top = Math.max(0, Math.floor(Math.min(...path.map(p => p.y)) - margin));
+  const right = Math.min(ctx.canvas.width, Math.ceil(Math.max(...path.map(p => p.x)) + margin));
+  const bottom = Math.min(ctx.canvas.height, Math.ceil(Math.max(...path.map(p => p.y)) + margin));
+  if (right <= left || bottom <= top) return 0;
+
+  const { data } = ctx.getImageData(left, top, right - left, bottom - top);
+  let alpha = 0;
+  for (let i = 3; i < data.length; i += 4) alpha += data[i];
+  return alpha;
+};
+
+// Apply an eraser path to legacy ink, which has no strokes to remove, and return the new PNG;
+// null when the path cleared no pixels, so the ink is left as it was
+export const eraseLegacyInk = (
+  legacyInk: HTMLImageElement,
+  path: { x: number; y: number }[],
+  width: number,
+  height: number
+): string | null => {
+  if (path.length === 0) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(legacyInk, 0, 0, width, height);
+  const alphaBefore = inkAlphaNear(ctx, path);
+  if (alphaBefore === 0) return null;
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = ERASER_WIDTH;
+  ctx.beginPath();
+  path.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  if (path.length === 1) ctx.lineTo(path[0].x + 0.01, path[0].y);
+  ctx.stroke();
+  return inkAlphaNear(ctx, path) < alphaBefore ? canvas.toDataURL('image/png') : null;
+};
@@ -0,0 +1,24 @@
+// Issue categories describe what is wrong with an excerpt, independently of how relevant it is.
+// Annotations store category ids; the refined prompt turns each category into a targeted fix.
+export interface IssueCategory {
+  id: string;
+  label: string;
+  emoji: string;
+  // Heading for the category's excerpts in the refined prompt
+  instruction: string;
+}
+
+export const ISSUE_CATEGORIES: IssueCategory[] = [
+  { id: 'factually-wrong', label: 'Factually wrong', emoji: '❗', instruction: 'Verify the facts in' },
+  { id: 'verbose', label: 'Verbose', emoji: '📏', instruction: 'Be more concise in' },
+  { id: 'off-topic', label: 'Off-topic', emoji: '🧭', instruction: 'Stay on topic instead of' },
+  { id: 'hallucinated-citation', label: 'Hallucinated citation', emoji: '📚', instruction: 'Only cite sources that exist; check the citations in' },
+  { id: 'unsafe', label: 'Unsafe', emoji: '⚠️', instruction: 'Remove or rewrite the unsafe content in' },
+  { id: 'formatting', label: 'Formatting', emoji: '🔣', instruction: 'Fix the formatting of' }
+];
+
+export const getIssueCategory = (id: string): IssueCategory | undefined =>
+  ISSUE_CATEGORIES.find(category => category.id === id);
+
+export const toggleIssue = (issues: string[] = [], id: string): string[] =>
+  issues.includes(id) ? issues.filter(issue => issue !== id) : [...issues, id];
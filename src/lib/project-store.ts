@@ -0,0 +1,57 @@
+import { PROJECTS_STORE, runRequest, SESSIONS_STORE } from './db';
+import type { RelevanceScale } from './relevance-scale';
+import { listSessions } from './session-store';
+
+export interface FlushProject {
+  id: string;
+  name: string;
+  // Scale given to new sessions created in this project
+  scale?: RelevanceScale;
+  createdAt: number;
+}
+
+const generateProjectId = () => `project-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listProjects = async (): Promise<FlushProject[]> => {
+  const projects = await runRequest<FlushProject[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+  return projects.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createProject = async (name: string): Promise<FlushProject> => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Project name cannot be empty');
+  const project: FlushProject = { id: generateProjectId(), name: trimmed, createdAt: Date.now() };
+  await runRequest(PROJECTS_STORE, 'readwrite', store => store.put(project));
+  return project;
+};
+
+// Imported sessions name their project; reuse a local project with the same name when there is one
+export const findOrCreateProject = async (name: string): Promise<FlushProject> => {
+  const projects = await listProjects();
+  const existing = projects.find(project => project.name.toLowerCase() === name.trim().toLowerCase());
+  return existing ?? createProject(name);
+};
+
+const updateProject = async (id: string, update: (project: FlushProject) => FlushProject): Promise<FlushProject> => {
+  const project = await runRequest<FlushProject | undefined>(PROJECTS_STORE, 'readonly', store => store.get(id));
+  if (!project) throw new Error(`Project ${id} not found`);
+  const updated = update(project);
+  await runRequest(PROJECTS_STORE, 'readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const renameProject = (id: string, name: string): Promise<FlushProject> =>
+  updateProject(id, project => ({ ...project, name: name.trim() || project.name }));
+
+// Existing sessions keep their own scale; only sessions created afterwards pick this one up
+export const setProjectScale = (id: string, scale: RelevanceScale): Promise<FlushProject> =>
+  updateProject(id, project => ({ ...project, scale }));
+
+// Sessions in a deleted project are kept and become unfiled; their updatedAt is left alone
+export const deleteProject = async (id: string): Promise<void> => {
+  const sessions = await listSessions();
+  for (const session of sessions.filter(s => s.projectId === id)) {
+    await runRequest(SESSIONS_STORE, 'readwrite', store => store.put({ ...session, projectId: undefined }));
+  }
+  await runRequest(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,87 @@
+import type { Annotation } from '@/components/AnnotationInterface';
+import type { CanvasAnnotation } from '@/components/InteractiveCanvas';
+import { goldAnnotations, isGold } from './adjudication';
+import { byConfidence, confidenceOf, describeConfidence, formatConfidence, FULL_CONFIDENCE, totalConfidence } from './confidence';
+import { ISSUE_CATEGORIES } from './issue-categories';
+import { levelsByWeight, type RelevanceScale } from './relevance-scale';
+
+// 'gold' uses the adjudicated gold layer when the session has one, 'all' every annotator's marks
+export type RefinementSource = 'gold' | 'all';
+
+// Canvas strokes that cover response text are folded into the text annotation shape the
+// refinement understands; strokes beside the text have no excerpt to quote
+export const collectRefinementAnnotations = (
+  textAnnotations: Annotation[],
+  canvasAnnotations: CanvasAnnotation[],
+  scale: RelevanceScale,
+  source: RefinementSource = 'gold'
+): Annotation[] => {
+  const gold = goldAnnotations(textAnnotations);
+  if (source === 'gold' && gold.length > 0) return gold;
+
+  return [
+    ...canvasAnnotations
+      .filter(a => a.startIndex !== undefined && a.text)
+      .map(a => ({
+        id: a.id,
+        text: a.text,
+        relevanceLevel: a.type,
+        confidence: a.confidence,
+        startIndex: a.startIndex,
+        endIndex: a.endIndex,
+        annotatorId: a.annotatorId
+      })),
+    // Orphaned annotations quote text that no longer exists in the response
+    ...textAnnotations.filter(a => !a.orphaned && !isGold(a))
+  ];
+};
+
+const formatExcerpt = (annotation: Annotation): string => {
+  let line = `- "${annotation.text.slice(0, 100)}${annotation.text.length > 100 ? '...' : ''}"`;
+  if (confidenceOf(annotation) < FULL_CONFIDENCE) {
+    line += ` (${describeConfidence(confidenceOf(annotation))}, ${formatConfidence(confidenceOf(annotation))} confidence)`;
+  }
+  line += '\n';
+  if (annotation.comment) {
+    line += `  Context: ${annotation.comment}\n`;
+  }
+  return line;
+};
+
+// Each level with an instruction gets its own section, most relevant first, followed by
+// one targeted fix per issue category in use, the most confidently tagged first. Excerpts
+// are listed most confident first, and less certain ones say so.
+export const buildRefinedPrompt = (originalPrompt: string, annotations: Annotation[], scale: RelevanceScale): string => {
+  if (annotations.length === 0) return originalPrompt;
+
+  let refinedPrompt = `${originalPrompt}\n\n**Refinement Instructions based on user feedback:**\n`;
+
+  levelsByWeight(scale)
+    .filter(level => level.instruction.trim())
+    .forEach(level => {
+      const levelAnnotations = byConfidence(annotations.filter(a => a.relevanceLevel === level.id));
+      if (levelAnnotations.length === 0) return;
+
+      const meanConfidence = totalConfidence(levelAnnotations) / levelAnnotations.length;
+      const certainty = meanConfidence < 0.75 ? `, ${describeConfidence(meanConfidence)} overall` : '';
+      refinedPrompt += `\n${level.emoji} **${level.instruction.trim()}** (marked ${level.label}${certainty}):\n`;
+      levelAnnotations.forEach(annotation => {
+        refinedPrompt += formatExcerpt(annotation);
+      });
+    });
+
+  ISSUE_CATEGORIES
+    .map(category => ({ category, tagged: byConfidence(annotations.filter(a => a.issues?.includes(category.id))) }))
+    .filter(({ tagged }) => tagged.length > 0)
+    .sort((a, b) => totalConfidence(b.tagged) - totalConfidence(a.tagged))
+    .forEach(({ category, tagged }) => {
+      refinedPrompt += `\n${category.emoji} **${category.instruction}** (tagged ${category.label}):\n`;
+      tagged.forEach(annotation => {
+        refinedPrompt += formatExcerpt(annotation);
+      });
+    });
+
+  refinedPrompt += `\nPlease provide a new response that emphasizes the highly relevant aspects while minimizing the less relevant content.`;
+
+  return refinedPrompt;
+};
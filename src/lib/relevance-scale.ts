@@ -0,0 +1,120 @@
+// A relevance scale is the set of levels annotators choose from. Annotations store the
+// level id; everything else (label, colour, weight, refinement wording) comes from the
+// scale, so a team can swap the default four levels for a Likert or keep/drop scale.
+export interface RelevanceLevel {
+  id: string;
+  label: string;
+  emoji: string;
+  // Hex colour, e.g. #ef4444
+  color: string;
+  // Positive weights mark content to keep or emphasise, negative weights mark noise, 0 is neutral
+  weight: number;
+  // Heading used for this level's excerpts in the refined prompt; empty levels are left out
+  instruction: string;
+}
+
+export interface RelevanceScale {
+  id: string;
+  name: string;
+  levels: RelevanceLevel[];
+}
+
+export const DEFAULT_SCALE: RelevanceScale = {
+  id: 'flush-default',
+  name: 'Flush relevance',
+  levels: [
+    { id: 'high', label: 'High', emoji: '🔥', color: '#ef4444', weight: 1, instruction: 'FOCUS MORE ON THESE ASPECTS' },
+    { id: 'medium', label: 'Medium', emoji: '⚡', color: '#ff6a00', weight: 0.5, instruction: 'MAINTAIN BALANCE' },
+    { id: 'low', label: 'Low', emoji: '❄️', color: '#3b82f6', weight: -1, instruction: 'REDUCE OR AVOID' },
+    { id: 'neutral', label: 'Neutral', emoji: '⚪', color: '#ffc107', weight: 0, instruction: '' }
+  ]
+};
+
+export const SCALE_PRESETS: RelevanceScale[] = [
+  DEFAULT_SCALE,
+  {
+    id: 'likert-5',
+    name: '5-point Likert',
+    levels: [
+      { id: 'essential', label: 'Essential', emoji: '⭐', color: '#16a34a', weight: 2, instruction: 'KEEP AND EXPAND' },
+      { id: 'useful', label: 'Useful', emoji: '👍', color: '#65a30d', weight: 1, instruction: 'KEEP' },
+      { id: 'neutral', label: 'Neutral', emoji: '⚪', color: '#a3a3a3', weight: 0, instruction: '' },
+      { id: 'weak', label: 'Weak', emoji: '👎', color: '#f97316', weight: -1, instruction: 'SHORTEN OR REWORK' },
+      { id: 'irrelevant', label: 'Irrelevant', emoji: '🚫', color: '#dc2626', weight: -2, instruction: 'REMOVE' }
+    ]
+  },
+  {
+    id: 'keep-drop',
+    name: 'Keep / drop',
+    levels: [
+      { id: 'keep', label: 'Keep', emoji: '✅', color: '#16a34a', weight: 1, instruction: 'KEEP THESE PARTS' },
+      { id: 'drop', label: 'Drop', emoji: '❌', color: '#dc2626', weight: -1, instruction: 'DROP THESE PARTS' }
+    ]
+  }
+];
+
+const FALLBACK_COLOR = '#9ca3af';
+
+export const generateLevelId = () => `level-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const generateScaleId = () => `scale-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Annotations can outlive the level they were made with (e.g. after the scale is edited),
+// so unknown ids resolve to a grey placeholder rather than failing
+export const resolveLevel = (scale: RelevanceScale, levelId: string): RelevanceLevel =>
+  scale.levels.find(level => level.id === levelId) ?? {
+    id: levelId,
+    label: levelId,
+    emoji: '•',
+    color: FALLBACK_COLOR,
+    weight: 0,
+    instruction: ''
+  };
+
+export const levelsByWeight = (scale: RelevanceScale): RelevanceLevel[] =>
+  [...scale.levels].sort((a, b) => b.weight - a.weight);
+
+export const getTopLevel = (scale: RelevanceScale): RelevanceLevel => levelsByWeight(scale)[0];
+
+export const getBottomLevel = (scale: RelevanceScale): RelevanceLevel => {
+  const sorted = levelsByWeight(scale);
+  return sorted[sorted.length - 1];
+};
+
+// The level annotators reach for by default: the lowest positive level, else the top one
+export const getMiddleLevel = (scale: RelevanceScale): RelevanceLevel => {
+  const positive = levelsByWeight(scale).filter(level => level.weight > 0);
+  return positive[positive.length - 1] ?? getTopLevel(scale);
+};
+
+export const isNoiseLevel = (level: RelevanceLevel) => level.weight < 0;
+
+// Position of a weight between the scale's lowest and highest weights, 0–1
+export const normalizeWeight = (scale: RelevanceScale, weight: number): number => {
+  const weights = scale.levels.map(level => level.weight);
+  const min = Math.min(...weights);
+  const max = Math.max(...weights);
+  return max === min ? 1 : (weight - min) / (max - min);
+};
+
+// Move annotations off levels that no longer exist onto the level of the new scale whose
+// relative weight is closest to what they had before
+export const mapLevelToScale = (levelId: string, from: RelevanceScale, to: RelevanceScale): string => {
+  if (to.levels.some(level => level.id === levelId)) return levelId;
+  const target = normalizeWeight(from, resolveLevel(from, levelId).weight);
+  return to.levels.reduce((best, level) =>
+    Math.abs(normalizeWeight(to, level.weight) - target) < Math.abs(normalizeWeight(to, best.weight) - target) ? level : best
+  ).id;
+};
+
+export const withAlpha = (hex: string, alpha: number): string => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const r = parseInt(full.slice(0, 2), 16);
+  const g = parseInt(full.slice(2, 4), 16);
+  const b = parseInt(full.slice(4, 6), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+// Weight-0 levels mean "no judgement": selecting text with them clears annotations instead
+export const isNeutralLevel = (level: RelevanceLevel) => level.weight === 0;
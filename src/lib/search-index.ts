@@ -0,0 +1,150 @@
+import { threadMessages } from './comment-thread';
+import { resolveLevel, type RelevanceLevel } from './relevance-scale';
+import type { FlushSession } from './session-store';
+
+export type SearchEntryKind = 'response' | 'excerpt' | 'comment';
+
+export interface SearchEntry {
+  sessionId: string;
+  sessionTitle: string;
+  kind: SearchEntryKind;
+  text: string;
+  // Offset of text within the session's response (paragraph start, or the annotation start)
+  offset: number;
+  annotationId?: string;
+  // The annotation's level, resolved against its session's scale
+  relevanceLevel?: RelevanceLevel;
+}
+
+export interface SearchResult {
+  entry: SearchEntry;
+  snippet: string;
+  // Offset of the first matching term within the session's response
+  matchOffset: number;
+  score: number;
+}
+
+export interface SearchIndex {
+  entries: SearchEntry[];
+  // Term -> indexes into entries
+  postings: Map<string, Set<number>>;
+}
+
+const SNIPPET_CONTEXT = 60;
+const DEFAULT_RESULT_LIMIT = 30;
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .match(/[\p{L}\p{N}]+/gu) ?? [];
+
+const splitParagraphs = (content: string): { text: string; offset: number }[] => {
+  const paragraphs: { text: string; offset: number }[] = [];
+  const pattern = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    if (match[0].trim()) paragraphs.push({ text: match[0], offset: match.index });
+  }
+  return paragraphs;
+};
+
+const sessionEntries = (session: FlushSession): SearchEntry[] => {
+  const base = { sessionId: session.id, sessionTitle: session.title };
+  const entries: SearchEntry[] = splitParagraphs(session.content).map(({ text, offset }) => ({
+    ...base,
+    kind: 'response',
+    text,
+    offset
+  }));
+
+  session.textAnnotations.forEach(annotation => {
+    const annotationFields = {
+      ...base,
+      offset: annotation.startIndex,
+      annotationId: annotation.id,
+      relevanceLevel: resolveLevel(session.scale, annotation.relevanceLevel)
+    };
+    entries.push({ ...annotationFields, kind: 'excerpt', text: annotation.text });
+    threadMessages(annotation).forEach(text => {
+      entries.push({ ...annotationFields, kind: 'comment', text });
+    });
+  });
+
+  return entries;
+};
+
+// Build an inverted index over every saved session. Annotation entries are also indexed
+// under their relevance level's id and label, so "gdpr low" finds a low-rated excerpt about GDPR.
+export const buildSearchIndex = (sessions: FlushSession[]): SearchIndex => {
+  const entries = sessions.flatMap(sessionEntries);
+  const postings = new Map<string, Set<number>>();
+
+  entries.forEach((entry, index) => {
+    const terms = tokenize(entry.text);
+    if (entry.relevanceLevel) terms.push(entry.relevanceLevel.id.toLowerCase(), ...tokenize(entry.relevanceLevel.label));
+    terms.forEach(term => {
+      if (!postings.has(term)) postings.set(term, new Set());
+      postings.get(term)!.add(index);
+    });
+  });
+
+  return { entries, postings };
+};
+
+const buildSnippet = (text: string, position: number, length: number): string => {
+  const start = Math.max(0, position - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, position + length + SNIPPET_CONTEXT);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+};
+
+// Every query term must match the start of some indexed term; exact term matches and
+// annotation entries rank higher than prefix matches in plain response text
+export const searchIndex = (index: SearchIndex, query: string, limit = DEFAULT_RESULT_LIMIT): SearchResult[] => {
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) return [];
+
+  const scores = new Map<number, number>();
+  for (let i = 0; i < queryTerms.length; i++) {
+    const termScores = new Map<number, number>();
+    index.postings.forEach((entryIndexes, term) => {
+      if (!term.startsWith(queryTerms[i])) return;
+      const weight = term === queryTerms[i] ? 2 : 1;
+      entryIndexes.forEach(entryIndex => {
+        termScores.set(entryIndex, Math.max(termScores.get(entryIndex) ?? 0, weight));
+      });
+    });
+
+    if (i === 0) {
+      termScores.forEach((score, entryIndex) => scores.set(entryIndex, score));
+    } else {
+      scores.forEach((score, entryIndex) => {
+        const termScore = termScores.get(entryIndex);
+        if (termScore === undefined) scores.delete(entryIndex);
+        else scores.set(entryIndex, score + termScore);
+      });
+    }
+  }
+
+  const results: SearchResult[] = [];
+  scores.forEach((score, entryIndex) => {
+    const entry = index.entries[entryIndex];
+    const lowerText = entry.text.toLowerCase();
+    const position = queryTerms
+      .map(term => lowerText.indexOf(term))
+      .filter(found => found !== -1)
+      .reduce((first, found) => Math.min(first, found), entry.text.length);
+    const matchPosition = position === entry.text.length ? 0 : position;
+
+    results.push({
+      entry,
+      snippet: buildSnippet(entry.text, matchPosition, queryTerms[0].length),
+      matchOffset: entry.kind === 'response' ? entry.offset + matchPosition : entry.offset,
+      score: entry.kind === 'response' ? score : score * 1.5
+    });
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+};
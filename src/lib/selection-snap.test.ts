@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { snapRange, type SnapGranularity } from './selection-snap';
+
+// The snapped text of a selection given as [start, end)
+const snap = (content: string, start: number, end: number, granularity: SnapGranularity) => {
+  const range = snapRange(content, { start, end }, granularity);
+  return range && content.slice(range.start, range.end);
+};
+
+describe('snapRange by character', () => {
+  it('keeps an emoji with its modifier whole at the start of the text', () => {
+    const content = '👍🏽 agreed';
+    expect(snapRange(content, { start: 0, end: 1 }, 'character')).toEqual({ start: 0, end: 4 });
+  });
+
+  it('keeps a joined emoji whole at the end of the text', () => {
+    const content = 'family 👨‍👩‍👧';
+    expect(snap(content, content.length - 1, content.length, 'character')).toBe('👨‍👩‍👧');
+  });
+
+  it('leaves plain characters as selected', () => {
+    expect(snap('alpha beta', 1, 3, 'character')).toBe('lp');
+  });
+});
+
+describe('snapRange by word', () => {
+  const content = 'alpha beta';
+
+  it('grows to whole words at both ends of the text', () => {
+    expect(snapRange(content, { start: 1, end: 2 }, 'word')).toEqual({ start: 0, end: 5 });
+    expect(snapRange(content, { start: 9, end: 10 }, 'word')).toEqual({ start: 6, end: 10 });
+  });
+
+  it('does not grow into a word the selection only touches', () => {
+    expect(snap(content, 0, 6, 'word')).toBe('alpha');
+  });
+
+  it('trims punctuation around the words', () => {
+    expect(snap('"Quoted," she said.', 0, 9, 'word')).toBe('Quoted');
+  });
+
+  it('is null for whitespace and punctuation only', () => {
+    expect(snapRange('alpha, beta', { start: 5, end: 7 }, 'word')).toBeNull();
+  });
+});
+
+describe('snapRange by sentence and paragraph', () => {
+  it('grows to the sentence without its final stop', () => {
+    expect(snap('One two. Three four.', 10, 11, 'sentence')).toBe('Three four');
+  });
+
+  it('grows to the paragraph', () => {
+    expect(snap('First line.\nSecond line\nThird', 14, 15, 'paragraph')).toBe('Second line');
+  });
+});
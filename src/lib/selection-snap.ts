@@ -0,0 +1,88 @@
+// Expands raw browser selections to whole characters (grapheme clusters), words, sentences or
+// paragraphs so annotations never split an emoji or start or end mid-word, then trims
+// whitespace and punctuation from both ends.
+export type SnapGranularity = 'character' | 'word' | 'sentence' | 'paragraph';
+
+export const SNAP_GRANULARITIES: { id: SnapGranularity; label: string }[] = [
+  { id: 'character', label: 'Characters' },
+  { id: 'word', label: 'Words' },
+  { id: 'sentence', label: 'Sentences' },
+  { id: 'paragraph', label: 'Paragraphs' }
+];
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const EDGE_CHARACTER = /[\s\p{P}]/u;
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+const getSegmenter = (granularity: 'grapheme' | 'word' | 'sentence'): Intl.Segmenter | null => {
+  if (typeof Intl === 'undefined' || !('Segmenter' in Intl)) return null;
+  if (!segmenters.has(granularity)) {
+    segmenters.set(granularity, new Intl.Segmenter(undefined, { granularity }));
+  }
+  return segmenters.get(granularity)!;
+};
+
+// Fallback for engines without Intl.Segmenter: grow over letters and digits
+const expandToWordsByPattern = (content: string, { start, end }: TextRange): TextRange => {
+  const isWordCharacter = (char: string | undefined) => !!char && /[\p{L}\p{N}_'’-]/u.test(char);
+  while (start > 0 && isWordCharacter(content[start - 1]) && isWordCharacter(content[start])) start--;
+  while (end < content.length && isWordCharacter(content[end - 1]) && isWordCharacter(content[end])) end++;
+  return { start, end };
+};
+
+// Fallback for engines without Intl.Segmenter: keep surrogate pairs together
+const expandToCodePoints = (content: string, { start, end }: TextRange): TextRange => {
+  const isLowSurrogate = (index: number) => /[\uDC00-\uDFFF]/.test(content[index] ?? '');
+  if (start > 0 && isLowSurrogate(start)) start--;
+  if (end < content.length && isLowSurrogate(end)) end++;
+  return { start, end };
+};
+
+const expandWithSegmenter = (segmenter: Intl.Segmenter, content: string, { start, end }: TextRange): TextRange => {
+  const segments = segmenter.segment(content);
+  const first = segments.containing(start);
+  const last = segments.containing(Math.max(start, end - 1));
+  return {
+    start: first ? first.index : start,
+    end: last ? last.index + last.segment.length : end
+  };
+};
+
+const expandToParagraphs = (content: string, { start, end }: TextRange): TextRange => {
+  const paragraphStart = content.lastIndexOf('\n', start - 1) + 1;
+  const paragraphEnd = content.indexOf('\n', end);
+  return { start: paragraphStart, end: paragraphEnd === -1 ? content.length : paragraphEnd };
+};
+
+const trimEdges = (content: string, { start, end }: TextRange): TextRange | null => {
+  while (start < end && EDGE_CHARACTER.test(content[start])) start++;
+  while (end > start && EDGE_CHARACTER.test(content[end - 1])) end--;
+  return start < end ? { start, end } : null;
+};
+
+// Returns null when the selection holds nothing but whitespace and punctuation
+export const snapRange = (content: string, range: TextRange, granularity: SnapGranularity): TextRange | null => {
+  // Trim first so a selection that merely touches the next word does not grow into it
+  const trimmed = trimEdges(content, range);
+  if (!trimmed) return null;
+
+  let expanded = trimmed;
+  if (granularity === 'character') {
+    const segmenter = getSegmenter('grapheme');
+    expanded = segmenter ? expandWithSegmenter(segmenter, content, trimmed) : expandToCodePoints(content, trimmed);
+  } else if (granularity === 'word' || granularity === 'sentence') {
+    const segmenter = getSegmenter(granularity);
+    expanded = segmenter
+      ? expandWithSegmenter(segmenter, content, trimmed)
+      : granularity === 'word' ? expandToWordsByPattern(content, trimmed) : expandToParagraphs(content, trimmed);
+  } else if (granularity === 'paragraph') {
+    expanded = expandToParagraphs(content, trimmed);
+  }
+
+  return trimEdges(content, expanded);
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { UNASSIGNED_ANNOTATOR } from './annotators';
+import { DEFAULT_SCALE } from './relevance-scale';
+import { createSession } from './session-store';
+import { FLUSH_FORMAT, FLUSH_FORMAT_VERSION, FlushFormatError, parseFlushFile, serializeSession } from './session-format';
+
+const [high] = DEFAULT_SCALE.levels.map(level => level.id);
+
+const fileOfVersion = (version: number, extra: Record<string, unknown> = {}) => ({
+  format: FLUSH_FORMAT,
+  version,
+  exportedAt: '2025-01-31T12:00:00.000Z',
+  session: { id: 'session-1', title: 'Sample', tags: [], createdAt: 1, updatedAt: 2 },
+  prompt: 'Prompt',
+  response: 'Response text',
+  textAnnotations: [],
+  canvasAnnotations: [
+    { id: 'c1', type: high, pressure: 0.5, timestamp: 1, bounds: { x: 10, y: 20, width: 50, height: 50 } }
+  ],
+  refinement: { refinedPrompt: '' },
+  ...extra
+});
+
+describe('parseFlushFile', () => {
+  it('migrates a version 3 file through version 4 to the current version', () => {
+    const file = parseFlushFile(fileOfVersion(3, { scale: DEFAULT_SCALE, canvasInk: 'data:image/png;base64,AAAA' }));
+    expect(file.version).toBe(FLUSH_FORMAT_VERSION);
+    expect(file.annotators).toEqual([]);
+    expect(file.canvasInk).toEqual({ [UNASSIGNED_ANNOTATOR.id]: 'data:image/png;base64,AAAA' });
+  });
+
+  it('reads version 4 strokes as path-less strokes on the first page', () => {
+    const file = parseFlushFile(fileOfVersion(4, { scale: DEFAULT_SCALE, annotators: [] }));
+    expect(file.version).toBe(FLUSH_FORMAT_VERSION);
+    expect(file.canvasAnnotations[0].stroke).toBeUndefined();
+    expect(file.canvasAnnotations[0].page).toBeUndefined();
+  });
+
+  it('rejects files newer than the app', () => {
+    expect(() => parseFlushFile(fileOfVersion(FLUSH_FORMAT_VERSION + 1))).toThrow(FlushFormatError);
+  });
+
+  it('rejects stroke samples out of range', () => {
+    const stroke = { tool: 'level', points: [{ x: 0, y: 0, pressure: 2, tiltX: 0, tiltY: 0, t: 0 }] };
+    const data = fileOfVersion(FLUSH_FORMAT_VERSION, {
+      scale: DEFAULT_SCALE,
+      annotators: [],
+      canvasAnnotations: [{ id: 'c1', type: high, pressure: 0.5, timestamp: 1, bounds: { x: 0, y: 0, width: 1, height: 1 }, stroke }]
+    });
+    expect(() => parseFlushFile(data)).toThrow(FlushFormatError);
+  });
+
+  it('round-trips strokes, hulls and pages', () => {
+    const session = createSession({
+      content: 'Response text',
+      canvasAnnotations: [{
+        id: 'c1',
+        type: high,
+        pressure: 0.5,
+        timestamp: 1,
+        bounds: { x: 5, y: 5, width: 10, height: 10 },
+        hull: [{ x: 5, y: 5 }, { x: 15, y: 5 }, { x: 15, y: 15 }],
+        page: 2,
+        stroke: { tool: 'magic', points: [{ x: 10, y: 10, pressure: 0.5, tiltX: 0, tiltY: 0, t: 0 }] }
+      }]
+    });
+    const file = parseFlushFile(JSON.parse(JSON.stringify(serializeSession(session))));
+    expect(file.canvasAnnotations).toEqual(session.canvasAnnotations);
+  });
+});
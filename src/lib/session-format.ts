@@ -0,0 +1,329 @@
+import { z } from 'zod';
+import type { Annotation } from '@/components/AnnotationInterface';
+import type { CanvasAnnotation } from '@/components/InteractiveCanvas';
+import { UNASSIGNED_ANNOTATOR, type Annotator, type InkLayers } from './annotators';
+import { findOrCreateProject } from './project-store';
+import { DEFAULT_SCALE, type RelevanceScale } from './relevance-scale';
+import { createSession, normalizeTags, type FlushSession } from './session-store';
+
+// Versioned interchange format for moving sessions between machines.
+// See docs/flush-format.md for the field reference and migration rules.
+export const FLUSH_FORMAT = 'flush-session';
+export const FLUSH_FORMAT_VERSION = 12;
+export const FLUSH_FILE_EXTENSION = '.flush.json';
+
+export class FlushFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FlushFormatError';
+  }
+}
+
+// Level ids are checked against the file's scale once the whole file has parsed
+const relevanceLevelSchema = z.string().min(1);
+
+const hexColorSchema = z.string().regex(/^#[0-9a-f]{3}([0-9a-f]{3})?$/i, 'must be a hex colour');
+
+const scaleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  levels: z.array(z.object({
+    id: z.string().min(1),
+    label: z.string(),
+    emoji: z.string(),
+    color: hexColorSchema,
+    weight: z.number(),
+    instruction: z.string()
+  })).min(1)
+});
+
+const annotationSchema = z.object({
+  id: z.string(),
+  startIndex: z.number().int().nonnegative(),
+  endIndex: z.number().int().nonnegative(),
+  relevanceLevel: relevanceLevelSchema,
+  text: z.string(),
+  comment: z.string().optional(),
+  issues: z.array(z.string()).optional(),
+  thread: z.array(z.object({
+    id: z.string(),
+    author: z.string(),
+    authorId: z.string().optional(),
+    body: z.string(),
+    createdAt: z.number(),
+    editedAt: z.number().optional()
+  })).optional(),
+  resolved: z.boolean().optional(),
+  prefix: z.string().optional(),
+  suffix: z.string().optional(),
+  orphaned: z.boolean().optional(),
+  annotatorId: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional()
+}).refine(a => a.endIndex >= a.startIndex, { message: 'endIndex must not be before startIndex' });
+
+const canvasAnnotationSchema = z.object({
+  id: z.string(),
+  type: relevanceLevelSchema,
+  pressure: z.number().min(0).max(1),
+  timestamp: z.number(),
+  bounds: z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number(),
+    height: z.number()
+  }),
+  hull: z.array(z.object({ x: z.number(), y: z.number() })).optional(),
+  annotatorId: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  startIndex: z.number().int().nonnegative().optional(),
+  endIndex: z.number().int().nonnegative().optional(),
+  text: z.string().optional(),
+  page: z.number().int().nonnegative().optional(),
+  stroke: z.object({
+    tool: z.enum(['magic', 'level']),
+    points: z.array(z.object({
+      x: z.number(),
+      y: z.number(),
+      pressure: z.number().min(0).max(1),
+      tiltX: z.number(),
+      tiltY: z.number(),
+      t: z.number()
+    }))
+  }).optional()
+}).refine(a => (a.startIndex === undefined) === (a.endIndex === undefined), {
+  message: 'startIndex and endIndex must be set together'
+}).refine(a => a.startIndex === undefined || a.endIndex >= a.startIndex, { message: 'endIndex must not be before startIndex' });
+
+const annotatorSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  color: hexColorSchema
+});
+
+const flushFileSchema = z.object({
+  format: z.literal(FLUSH_FORMAT),
+  version: z.literal(FLUSH_FORMAT_VERSION),
+  exportedAt: z.string(),
+  session: z.object({
+    id: z.string(),
+    title: z.string(),
+    project: z.string().optional(),
+    tags: z.array(z.string()),
+    createdAt: z.number(),
+    updatedAt: z.number()
+  }),
+  prompt: z.string(),
+  response: z.string(),
+  textAnnotations: z.array(annotationSchema),
+  canvasAnnotations: z.array(canvasAnnotationSchema),
+  canvasInk: z.record(z.string().startsWith('data:image/')).optional(),
+  scale: scaleSchema,
+  annotators: z.array(annotatorSchema),
+  refinement: z.object({
+    refinedPrompt: z.string()
+  })
+}).superRefine((file, ctx) => {
+  const levelIds = new Set(file.scale.levels.map(level => level.id));
+  file.textAnnotations.forEach((annotation, index) => {
+    if (!levelIds.has(annotation.relevanceLevel)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['textAnnotations', index, 'relevanceLevel'], message: 'is not a level of the scale' });
+    }
+  });
+  file.canvasAnnotations.forEach((annotation, index) => {
+    if (!levelIds.has(annotation.type)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['canvasAnnotations', index, 'type'], message: 'is not a level of the scale' });
+    }
+  });
+
+  // Annotator ids must be listed in annotators, apart from the unassigned layer
+  const annotatorIds = new Set([UNASSIGNED_ANNOTATOR.id, ...file.annotators.map(annotator => annotator.id)]);
+  const checkAnnotator = (id: string | undefined, path: (string | number)[]) => {
+    if (id !== undefined && !annotatorIds.has(id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: 'is not a listed annotator' });
+    }
+  };
+  file.textAnnotations.forEach((annotation, index) => {
+    checkAnnotator(annotation.annotatorId, ['textAnnotations', index, 'annotatorId']);
+    (annotation.thread ?? []).forEach((comment, commentIndex) =>
+      checkAnnotator(comment.authorId, ['textAnnotations', index, 'thread', commentIndex, 'authorId'])
+    );
+  });
+  file.canvasAnnotations.forEach((annotation, index) => checkAnnotator(annotation.annotatorId, ['canvasAnnotations', index, 'annotatorId']));
+  Object.keys(file.canvasInk ?? {}).forEach(id => checkAnnotator(id, ['canvasInk', id]));
+});
+
+// Mirrors flushFileSchema; the app is compiled without strictNullChecks, so z.infer would
+// report every field as optional
+export interface FlushFile {
+  format: typeof FLUSH_FORMAT;
+  version: typeof FLUSH_FORMAT_VERSION;
+  exportedAt: string;
+  session: { id: string; title: string; project?: string; tags: string[]; createdAt: number; updatedAt: number };
+  prompt: string;
+  response: string;
+  textAnnotations: Annotation[];
+  canvasAnnotations: CanvasAnnotation[];
+  canvasInk?: InkLayers;
+  scale: RelevanceScale;
+  annotators: Annotator[];
+  refinement: { refinedPrompt: string };
+}
+
+const envelopeSchema = z.object({
+  format: z.literal(FLUSH_FORMAT),
+  version: z.number().int().positive()
+}).passthrough();
+
+type FlushFileData = Record<string, unknown> & { version: number };
+
+// migrations[n] upgrades a version n document to version n + 1
+const migrations: Record<number, (data: FlushFileData) => FlushFileData> = {
+  // v2 added project and tags to the session block
+  1: data => ({
+    ...data,
+    version: 2,
+    session: { ...(data.session as Record<string, unknown>), tags: [] }
+  }),
+  // v3 added the relevance scale; earlier files always used the four built-in levels
+  2: data => ({
+    ...data,
+    version: 3,
+    scale: DEFAULT_SCALE
+  }),
+  // v4 added annotators; the single ink image becomes the unassigned annotator's layer
+  3: data => ({
+    ...data,
+    version: 4,
+    annotators: [],
+    canvasInk: typeof data.canvasInk === 'string' ? { [UNASSIGNED_ANNOTATOR.id]: data.canvasInk } : undefined
+  }),
+  // v5 added issue categories to text annotations
+  4: data => ({ ...data, version: 5 }),
+  // v6 added discussion threads and the resolved flag to text annotations
+  5: data => ({ ...data, version: 6 }),
+  // v7 added the annotator id of each reply's author
+  6: data => ({ ...data, version: 7 }),
+  // v8 added annotation confidence; absent means fully confident
+  7: data => ({ ...data, version: 8 }),
+  // v9 added the response range and text a canvas stroke covers
+  8: data => ({ ...data, version: 9 }),
+  // v10 stores canvas strokes as paths and keeps canvasInk for older ink beneath them; older
+  // strokes have no paths, so all of their ink is already in canvasInk
+  9: data => ({ ...data, version: 10 }),
+  // v11 added stroke hulls and made bounds the real box around the ink; strokes without a hull
+  // keep the older 50px square
+  10: data => ({ ...data, version: 11 }),
+  // v12 split the canvas into pages; an older file's single 1024×768 canvas is the first page,
+  // where unpaged strokes belong
+  11: data => ({ ...data, version: 12 })
+};
+
+const migrate = (data: FlushFileData): FlushFileData => {
+  let current = data;
+  while (current.version < FLUSH_FORMAT_VERSION) {
+    const step = migrations[current.version];
+    if (!step) {
+      throw new FlushFormatError(`No migration available from format version ${current.version}`);
+    }
+    current = step(current);
+  }
+  return current;
+};
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 3)
+    .map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`)
+    .join('; ');
+
+// Projects are local to each library, so the file carries the project name rather than its id
+export const serializeSession = (session: FlushSession, projectName?: string): FlushFile => ({
+  format: FLUSH_FORMAT,
+  version: FLUSH_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  session: {
+    id: session.id,
+    title: session.title,
+    project: projectName,
+    tags: session.tags,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt
+  },
+  prompt: session.originalPrompt,
+  response: session.content,
+  textAnnotations: session.textAnnotations,
+  canvasAnnotations: session.canvasAnnotations,
+  canvasInk: session.canvasInk,
+  scale: session.scale,
+  annotators: session.annotators,
+  refinement: {
+    refinedPrompt: session.refinedPrompt
+  }
+});
+
+export const parseFlushFile = (data: unknown): FlushFile => {
+  const envelope = envelopeSchema.safeParse(data);
+  if (!envelope.success) {
+    throw new FlushFormatError('Not a Flush session file');
+  }
+  if (envelope.data.version > FLUSH_FORMAT_VERSION) {
+    throw new FlushFormatError(
+      `File uses format version ${envelope.data.version}, but this app only understands up to version ${FLUSH_FORMAT_VERSION}`
+    );
+  }
+
+  const result = flushFileSchema.safeParse(migrate(envelope.data as FlushFileData));
+  if (!result.success) {
+    throw new FlushFormatError(`Invalid session file (${describeIssues(result.error)})`);
+  }
+  return result.data as FlushFile;
+};
+
+// Imported sessions get a fresh id so they never overwrite a session already in the library
+export const deserializeSession = (file: FlushFile): FlushSession => createSession({
+  title: file.session.title,
+  tags: normalizeTags(file.session.tags),
+  originalPrompt: file.prompt,
+  content: file.response,
+  textAnnotations: file.textAnnotations,
+  canvasAnnotations: file.canvasAnnotations,
+  canvasInk: file.canvasInk,
+  scale: file.scale,
+  annotators: file.annotators,
+  refinedPrompt: file.refinement.refinedPrompt,
+  createdAt: file.session.createdAt,
+  updatedAt: file.session.updatedAt
+});
+
+export const importSessionFile = async (file: File): Promise<FlushSession> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new FlushFormatError(`${file.name} is not valid JSON`);
+  }
+
+  const parsed = parseFlushFile(data);
+  const session = deserializeSession(parsed);
+  if (parsed.session.project) {
+    session.projectId = (await findOrCreateProject(parsed.session.project)).id;
+  }
+  return session;
+};
+
+const toFileName = (title: string) =>
+  (title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'session') + FLUSH_FILE_EXTENSION;
+
+export const exportSessionFile = (session: FlushSession, projectName?: string): string => {
+  const fileName = toFileName(session.title);
+  const blob = new Blob([JSON.stringify(serializeSession(session, projectName), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+  return fileName;
+};
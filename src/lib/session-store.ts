@@ -0,0 +1,170 @@
+import type { Annotation } from '@/components/AnnotationInterface';
+import type { CanvasAnnotation } from '@/components/InteractiveCanvas';
+import { UNASSIGNED_ANNOTATOR, type Annotator, type InkLayers } from './annotators';
+import { runRequest, SESSIONS_STORE } from './db';
+import { DEFAULT_SCALE, mapLevelToScale, type RelevanceScale } from './relevance-scale';
+import { deleteSnapshots, recordSnapshot } from './snapshot-store';
+
+export const DEFAULT_ORIGINAL_PROMPT = 'Please analyze this AI response and improve it based on my feedback:';
+
+export interface FlushSession {
+  id: string;
+  title: string;
+  originalPrompt: string;
+  content: string;
+  textAnnotations: Annotation[];
+  canvasAnnotations: CanvasAnnotation[];
+  // PNG data URLs of the canvas ink, one layer per annotator
+  canvasInk?: InkLayers;
+  refinedPrompt: string;
+  // Levels the annotations' relevanceLevel/type ids refer to
+  scale: RelevanceScale;
+  // Names and layer colours of the annotators referenced by annotatorId
+  annotators: Annotator[];
+  projectId?: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SessionDetails = Pick<FlushSession, 'projectId' | 'tags'>;
+
+// Library filter: projectId is a project id or UNFILED_PROJECT; leaving a field unset matches everything
+export interface SessionFilter {
+  projectId?: string;
+  tag?: string;
+}
+
+export const UNFILED_PROJECT = 'unfiled';
+
+const generateSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Derive a readable title from the first words of the response
+export const deriveSessionTitle = (content: string): string => {
+  const firstLine = content.trim().split('\n')[0] || '';
+  const words = firstLine.split(/\s+/).filter(Boolean).slice(0, 8).join(' ');
+  if (!words) return 'Untitled session';
+  return words.length < firstLine.length ? `${words}…` : words;
+};
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(normalizeTag).filter(Boolean))).sort();
+
+// Sessions stored before projects, tags, custom scales and annotators existed lack those
+// fields; their ink was a single image, which becomes the unassigned layer
+export const withSessionDefaults = (session: FlushSession): FlushSession => {
+  const ink: InkLayers | string | undefined = session.canvasInk;
+  return {
+    ...session,
+    tags: session.tags ?? [],
+    scale: session.scale ?? DEFAULT_SCALE,
+    annotators: session.annotators ?? [],
+    canvasInk: typeof ink === 'string' ? { [UNASSIGNED_ANNOTATOR.id]: ink } : ink
+  };
+};
+
+// Switch a session to another scale, moving annotations on levels that no longer exist
+// to the closest remaining level
+export const applySessionScale = (session: FlushSession, scale: RelevanceScale): FlushSession => ({
+  ...session,
+  scale,
+  textAnnotations: session.textAnnotations.map(annotation => ({
+    ...annotation,
+    relevanceLevel: mapLevelToScale(annotation.relevanceLevel, session.scale, scale)
+  })),
+  canvasAnnotations: session.canvasAnnotations.map(annotation => ({
+    ...annotation,
+    type: mapLevelToScale(annotation.type, session.scale, scale)
+  }))
+});
+
+export const filterSessions = (sessions: FlushSession[], filter: SessionFilter): FlushSession[] =>
+  sessions.filter(session => {
+    if (filter.projectId === UNFILED_PROJECT) {
+      if (session.projectId) return false;
+    } else if (filter.projectId && session.projectId !== filter.projectId) {
+      return false;
+    }
+    return !filter.tag || session.tags.includes(filter.tag);
+  });
+
+// Every tag in use, with the number of sessions carrying it, most used first
+export const countTags = (sessions: FlushSession[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  sessions.forEach(session => session.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+export const createSession = (overrides: Partial<FlushSession> = {}): FlushSession => {
+  const now = Date.now();
+  const content = overrides.content ?? '';
+  return {
+    id: generateSessionId(),
+    title: deriveSessionTitle(content),
+    originalPrompt: DEFAULT_ORIGINAL_PROMPT,
+    content,
+    textAnnotations: [],
+    canvasAnnotations: [],
+    refinedPrompt: '',
+    scale: DEFAULT_SCALE,
+    annotators: [],
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+    ...overrides
+  };
+};
+
+export const listSessions = async (): Promise<FlushSession[]> => {
+  const sessions = await runRequest<FlushSession[]>(SESSIONS_STORE, 'readonly', store => store.getAll());
+  return sessions.map(withSessionDefaults).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = async (id: string): Promise<FlushSession | undefined> => {
+  const session = await runRequest<FlushSession | undefined>(SESSIONS_STORE, 'readonly', store => store.get(id));
+  return session && withSessionDefaults(session);
+};
+
+export const saveSession = async (session: FlushSession): Promise<FlushSession> => {
+  const saved = { ...session, updatedAt: Date.now() };
+  await runRequest(SESSIONS_STORE, 'readwrite', store => store.put(saved));
+  await recordSnapshot(saved);
+  return saved;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest(SESSIONS_STORE, 'readwrite', store => store.delete(id));
+  await deleteSnapshots(id);
+};
+
+export const renameSession = async (id: string, title: string): Promise<FlushSession> => {
+  const session = await getSession(id);
+  if (!session) throw new Error(`Session ${id} not found`);
+  return saveSession({ ...session, title: title.trim() || session.title });
+};
+
+export const updateSessionDetails = async (id: string, details: Partial<SessionDetails>): Promise<FlushSession> => {
+  const session = await getSession(id);
+  if (!session) throw new Error(`Session ${id} not found`);
+  return saveSession({
+    ...session,
+    ...details,
+    tags: normalizeTags(details.tags ?? session.tags)
+  });
+};
+
+export const duplicateSession = async (id: string): Promise<FlushSession> => {
+  const session = await getSession(id);
+  if (!session) throw new Error(`Session ${id} not found`);
+  const now = Date.now();
+  return saveSession({
+    ...session,
+    id: generateSessionId(),
+    title: `${session.title} (copy)`,
+    createdAt: now,
+    updatedAt: now
+  });
+};
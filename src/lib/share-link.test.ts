@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FlushFormatError } from './session-format';
+import { createSession } from './session-store';
+import { createShareLink, readShareLink, REVIEW_ROUTE } from './share-link';
+
+const ORIGIN = 'https://flush.example';
+
+const session = createSession({
+  title: 'Shared review',
+  originalPrompt: 'Summarize the report',
+  content: 'The report covers three quarters. Revenue grew in each — 🎉.',
+  textAnnotations: [
+    { id: 'a1', startIndex: 4, endIndex: 10, relevanceLevel: 'high', text: 'report', comment: 'Key subject', issues: ['facts'] }
+  ],
+  canvasAnnotations: [{
+    id: 'c1',
+    type: 'low',
+    pressure: 0.5,
+    timestamp: 1,
+    bounds: { x: 5, y: 5, width: 10, height: 10 },
+    stroke: { tool: 'level', points: [{ x: 10, y: 10, pressure: 0.5, tiltX: 0, tiltY: 0, t: 0 }] }
+  }],
+  canvasInk: { unassigned: 'data:image/png;base64,AAAA' }
+});
+
+const fragmentOf = (link: string) => link.slice(link.indexOf('#'));
+
+describe('share links', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { location: { origin: ORIGIN } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips the text, annotations and strokes through the review route', async () => {
+    const link = await createShareLink(session);
+    expect(link.startsWith(`${ORIGIN}${REVIEW_ROUTE}#z.`)).toBe(true);
+
+    const shared = await readShareLink(fragmentOf(link));
+    expect(shared).toMatchObject({
+      title: session.title,
+      originalPrompt: session.originalPrompt,
+      content: session.content,
+      textAnnotations: session.textAnnotations,
+      canvasAnnotations: session.canvasAnnotations
+    });
+  });
+
+  it('leaves legacy ink images out of the link', async () => {
+    const shared = await readShareLink(fragmentOf(await createShareLink(session)));
+    expect(shared.canvasInk).toBeUndefined();
+  });
+
+  it('falls back to plain JSON where CompressionStream is unavailable', async () => {
+    vi.stubGlobal('CompressionStream', undefined);
+    const link = await createShareLink(session);
+    expect(fragmentOf(link).startsWith('#j.')).toBe(true);
+    expect((await readShareLink(fragmentOf(link))).content).toBe(session.content);
+  });
+
+  it('rejects empty and damaged links', async () => {
+    await expect(readShareLink('#')).rejects.toThrow(FlushFormatError);
+    await expect(readShareLink('#z.not-deflate-data')).rejects.toThrow('damaged or incomplete');
+    await expect(readShareLink('#x.unknown')).rejects.toThrow('damaged or incomplete');
+  });
+});
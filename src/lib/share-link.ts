@@ -0,0 +1,69 @@
+import { deserializeSession, FlushFormatError, parseFlushFile, serializeSession } from './session-format';
+import type { FlushSession } from './session-store';
+
+export const REVIEW_ROUTE = '/review';
+
+// Payload prefixes: deflate-compressed JSON, or plain JSON where CompressionStream is unavailable
+const COMPRESSED_PREFIX = 'z.';
+const PLAIN_PREFIX = 'j.';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): Uint8Array => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// The link carries the text and annotations, stroke paths included; legacy canvas ink images are too large for a URL
+export const createShareLink = async (session: FlushSession): Promise<string> => {
+  const json = JSON.stringify(serializeSession({ ...session, canvasInk: undefined }));
+  const bytes = new TextEncoder().encode(json);
+
+  const payload = typeof CompressionStream === 'undefined'
+    ? PLAIN_PREFIX + toBase64Url(bytes)
+    : COMPRESSED_PREFIX + toBase64Url(await pipeThrough(bytes, new CompressionStream('deflate-raw')));
+
+  return `${window.location.origin}${REVIEW_ROUTE}#${payload}`;
+};
+
+export const readShareLink = async (fragment: string): Promise<FlushSession> => {
+  const payload = fragment.replace(/^#/, '');
+  if (!payload) {
+    throw new FlushFormatError('This link does not contain a shared session');
+  }
+
+  let json: string;
+  try {
+    if (payload.startsWith(COMPRESSED_PREFIX)) {
+      const bytes = await pipeThrough(fromBase64Url(payload.slice(COMPRESSED_PREFIX.length)), new DecompressionStream('deflate-raw'));
+      json = new TextDecoder().decode(bytes);
+    } else if (payload.startsWith(PLAIN_PREFIX)) {
+      json = new TextDecoder().decode(fromBase64Url(payload.slice(PLAIN_PREFIX.length)));
+    } else {
+      throw new Error('Unknown payload encoding');
+    }
+  } catch {
+    throw new FlushFormatError('This share link is damaged or incomplete');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new FlushFormatError('This share link is damaged or incomplete');
+  }
+  return deserializeSession(parseFlushFile(data));
+};
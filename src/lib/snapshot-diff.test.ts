@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { diffText, type TextDiffSegment } from './snapshot-diff';
+
+const textOf = (segments: TextDiffSegment[], side: 'before' | 'after') =>
+  segments
+    .filter(segment => segment.type === 'equal' || segment.type === (side === 'before' ? 'delete' : 'insert'))
+    .map(segment => segment.text)
+    .join('');
+
+const lines = (count: number, line: (i: number) => string) =>
+  Array.from({ length: count }, (_, i) => line(i)).join('\n');
+
+describe('diffText', () => {
+  it('marks changed words and keeps the rest equal', () => {
+    expect(diffText('the quick brown fox', 'the slow brown fox')).toEqual([
+      { type: 'equal', text: 'the ' },
+      { type: 'delete', text: 'quick' },
+      { type: 'insert', text: 'slow' },
+      { type: 'equal', text: ' brown fox' }
+    ]);
+  });
+
+  it('is a single equal segment for unchanged text and empty for empty text', () => {
+    expect(diffText('same text', 'same text')).toEqual([{ type: 'equal', text: 'same text' }]);
+    expect(diffText('', '')).toEqual([]);
+  });
+
+  // Every other line changes, so trimming the shared ends leaves almost the whole text to diff
+  it('diffs by lines when the changed region has too many words for the table', () => {
+    const before = lines(1500, i => `alpha${i} beta${i}`);
+    const after = lines(1500, i => (i % 2 ? `gamma${i} delta${i}` : `alpha${i} beta${i}`));
+    const segments = diffText(before, after);
+
+    expect(textOf(segments, 'before')).toBe(before);
+    expect(textOf(segments, 'after')).toBe(after);
+    // Line tokens: unchanged lines come through whole instead of word by word
+    expect(segments.find(segment => segment.type === 'delete')?.text).toBe('alpha1 beta1\n');
+    expect(segments.filter(segment => segment.type === 'equal')).toHaveLength(750);
+  });
+
+  it('replaces the region whole when even its lines are too many', () => {
+    const before = lines(2100, i => `old${i}`);
+    const after = lines(2100, i => `new${i}`);
+    expect(diffText(before, after)).toEqual([
+      { type: 'delete', text: before },
+      { type: 'insert', text: after }
+    ]);
+  });
+});
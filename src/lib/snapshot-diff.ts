@@ -0,0 +1,160 @@
+import type { Annotation } from '@/components/AnnotationInterface';
+import type { CanvasAnnotation } from '@/components/InteractiveCanvas';
+import type { SessionSnapshot } from './snapshot-store';
+
+export interface TextDiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface LevelChange {
+  annotation: Annotation;
+  from: Annotation['relevanceLevel'];
+  to: Annotation['relevanceLevel'];
+}
+
+export interface CommentChange {
+  annotation: Annotation;
+  from?: string;
+  to?: string;
+}
+
+export interface SnapshotDiff {
+  textSegments: TextDiffSegment[];
+  textChanged: boolean;
+  annotationsAdded: Annotation[];
+  annotationsRemoved: Annotation[];
+  levelChanges: LevelChange[];
+  commentChanges: CommentChange[];
+  canvasAdded: CanvasAnnotation[];
+  canvasRemoved: CanvasAnnotation[];
+}
+
+// Words and the whitespace between them are kept as separate tokens so the
+// joined segments reproduce the text exactly
+const tokenizeWords = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+const pushSegment = (segments: TextDiffSegment[], type: TextDiffSegment['type'], text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) last.text += text;
+  else segments.push({ type, text });
+};
+
+const tokenizeLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+/g) ?? [];
+
+// The LCS table holds one cell per pair of changed tokens; past this many (16 MB) the diff
+// falls back to coarser tokens so a full rewrite of a long response cannot exhaust memory
+const MAX_LCS_CELLS = 4_000_000;
+
+const diffTokens = (a: string[], b: string[], segments: TextDiffSegment[]) => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = a[i] === b[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      pushSegment(segments, 'delete', a[i++]);
+    } else {
+      pushSegment(segments, 'insert', b[j++]);
+    }
+  }
+  pushSegment(segments, 'delete', a.slice(i).join(''));
+  pushSegment(segments, 'insert', b.slice(j).join(''));
+};
+
+// LCS diff with the first tokenizer; the shared prefix and suffix are trimmed first so typical
+// edits only run the quadratic part over the region that changed. A changed region too large
+// for the table is diffed again with the next, coarser tokenizer, and replaced whole after the last.
+const diffWith = (
+  before: string,
+  after: string,
+  tokenizers: ((text: string) => string[])[],
+  segments: TextDiffSegment[]
+) => {
+  const [tokenize, ...coarser] = tokenizers;
+  if (!tokenize) {
+    pushSegment(segments, 'delete', before);
+    pushSegment(segments, 'insert', after);
+    return;
+  }
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  pushSegment(segments, 'equal', a.slice(0, prefix).join(''));
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    diffWith(midA.join(''), midB.join(''), coarser, segments);
+  } else {
+    diffTokens(midA, midB, segments);
+  }
+  pushSegment(segments, 'equal', a.slice(a.length - suffix).join(''));
+};
+
+// Word-level diff, by lines for very large rewrites
+export const diffText = (before: string, after: string): TextDiffSegment[] => {
+  const segments: TextDiffSegment[] = [];
+  diffWith(before, after, [tokenizeWords, tokenizeLines], segments);
+  return segments;
+};
+
+export const diffSnapshots = (before: SessionSnapshot, after: SessionSnapshot): SnapshotDiff => {
+  const beforeById = new Map(before.textAnnotations.map(a => [a.id, a]));
+  const afterById = new Map(after.textAnnotations.map(a => [a.id, a]));
+  const beforeCanvasIds = new Set(before.canvasAnnotations.map(a => a.id));
+  const afterCanvasIds = new Set(after.canvasAnnotations.map(a => a.id));
+
+  const levelChanges: LevelChange[] = [];
+  const commentChanges: CommentChange[] = [];
+  after.textAnnotations.forEach(annotation => {
+    const previous = beforeById.get(annotation.id);
+    if (!previous) return;
+    if (previous.relevanceLevel !== annotation.relevanceLevel) {
+      levelChanges.push({ annotation, from: previous.relevanceLevel, to: annotation.relevanceLevel });
+    }
+    if ((previous.comment ?? '') !== (annotation.comment ?? '')) {
+      commentChanges.push({ annotation, from: previous.comment, to: annotation.comment });
+    }
+  });
+
+  return {
+    textSegments: diffText(before.content, after.content),
+    textChanged: before.content !== after.content,
+    annotationsAdded: after.textAnnotations.filter(a => !beforeById.has(a.id)),
+    annotationsRemoved: before.textAnnotations.filter(a => !afterById.has(a.id)),
+    levelChanges,
+    commentChanges,
+    canvasAdded: after.canvasAnnotations.filter(a => !beforeCanvasIds.has(a.id)),
+    canvasRemoved: before.canvasAnnotations.filter(a => !afterCanvasIds.has(a.id))
+  };
+};
+
+export const countChanges = (diff: SnapshotDiff): number =>
+  (diff.textChanged ? 1 : 0) +
+  diff.annotationsAdded.length +
+  diff.annotationsRemoved.length +
+  diff.levelChanges.length +
+  diff.commentChanges.length +
+  diff.canvasAdded.length +
+  diff.canvasRemoved.length;
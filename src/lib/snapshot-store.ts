@@ -0,0 +1,56 @@
+import type { Annotation } from '@/components/AnnotationInterface';
+import type { CanvasAnnotation } from '@/components/InteractiveCanvas';
+import { runRequest, SNAPSHOTS_STORE } from './db';
+import type { FlushSession } from './session-store';
+
+// The state of a session at one save. Canvas ink is left out to keep the history small;
+// the canvas annotation records are kept so their changes still show up in diffs.
+export interface SessionSnapshot {
+  id: string;
+  sessionId: string;
+  createdAt: number;
+  content: string;
+  textAnnotations: Annotation[];
+  canvasAnnotations: CanvasAnnotation[];
+}
+
+const generateSnapshotId = () => `snapshot-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isSameState = (snapshot: SessionSnapshot, session: FlushSession) =>
+  snapshot.content === session.content &&
+  JSON.stringify(snapshot.textAnnotations) === JSON.stringify(session.textAnnotations) &&
+  JSON.stringify(snapshot.canvasAnnotations) === JSON.stringify(session.canvasAnnotations);
+
+export const listSnapshots = async (sessionId: string): Promise<SessionSnapshot[]> => {
+  const snapshots = await runRequest<SessionSnapshot[]>(SNAPSHOTS_STORE, 'readonly', store =>
+    store.index('sessionId').getAll(sessionId)
+  );
+  return snapshots.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Saves that only touch metadata (title, project, tags) do not add a snapshot
+export const recordSnapshot = async (session: FlushSession): Promise<SessionSnapshot | undefined> => {
+  const snapshots = await listSnapshots(session.id);
+  const latest = snapshots[snapshots.length - 1];
+  if (latest && isSameState(latest, session)) return undefined;
+
+  const snapshot: SessionSnapshot = {
+    id: generateSnapshotId(),
+    sessionId: session.id,
+    createdAt: session.updatedAt,
+    content: session.content,
+    textAnnotations: session.textAnnotations,
+    canvasAnnotations: session.canvasAnnotations
+  };
+  await runRequest(SNAPSHOTS_STORE, 'readwrite', store => store.put(snapshot));
+  return snapshot;
+};
+
+export const deleteSnapshots = async (sessionId: string): Promise<void> => {
+  const ids = await runRequest<IDBValidKey[]>(SNAPSHOTS_STORE, 'readonly', store =>
+    store.index('sessionId').getAllKeys(sessionId)
+  );
+  for (const id of ids) {
+    await runRequest(SNAPSHOTS_STORE, 'readwrite', store => store.delete(id));
+  }
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { createStroke, inkWidth } from './ink-strokes';
+import {
+  boundsContain,
+  convexHull,
+  findShapeAt,
+  hullArea,
+  hullContains,
+  pathNearBounds,
+  strokeBounds,
+  strokeHull,
+  unionBounds
+} from './stroke-geometry';
+
+const square = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+
+describe('convexHull', () => {
+  it('drops interior and collinear points', () => {
+    expect(convexHull([...square, { x: 5, y: 5 }, { x: 5, y: 0 }])).toEqual(square);
+  });
+
+  it('returns fewer than three points as they are', () => {
+    expect(convexHull([{ x: 1, y: 1 }])).toEqual([{ x: 1, y: 1 }]);
+  });
+});
+
+describe('hullArea', () => {
+  it('measures a polygon in square pixels', () => {
+    expect(hullArea(square)).toBe(100);
+    expect(hullArea([{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 0, y: 3 }])).toBe(6);
+  });
+});
+
+describe('hullContains', () => {
+  it('tells points inside from points outside', () => {
+    expect(hullContains(square, { x: 5, y: 5 })).toBe(true);
+    expect(hullContains(square, { x: 10, y: 5 })).toBe(true);
+    expect(hullContains(square, { x: 11, y: 5 })).toBe(false);
+    expect(hullContains(square.slice(0, 2), { x: 5, y: 0 })).toBe(false);
+  });
+});
+
+describe('strokeBounds and strokeHull', () => {
+  const stroke = createStroke('level', [
+    { x: 100, y: 100, pressure: 0.5, tiltX: 0, tiltY: 0, t: 0 },
+    { x: 200, y: 100, pressure: 0.5, tiltX: 0, tiltY: 0, t: 100 }
+  ]);
+  const radius = inkWidth(0.5) / 2;
+
+  it('cover the ink, not only the path through it', () => {
+    expect(strokeBounds(stroke)).toEqual({ x: 100 - radius, y: 100 - radius, width: 100 + 2 * radius, height: 2 * radius });
+  });
+
+  it('give a hull inside the bounds that holds the drawn line', () => {
+    const hull = strokeHull(stroke);
+    const bounds = strokeBounds(stroke);
+    expect(hull.every(point => boundsContain(bounds, point))).toBe(true);
+    expect(hullContains(hull, { x: 150, y: 100 })).toBe(true);
+    expect(hullContains(hull, { x: 150, y: 100 + radius + 1 })).toBe(false);
+  });
+});
+
+describe('findShapeAt', () => {
+  it('picks the most recent shape under the point', () => {
+    const shapes = [
+      { id: 'old', bounds: { x: 0, y: 0, width: 10, height: 10 }, hull: square },
+      { id: 'legacy', bounds: { x: 0, y: 0, width: 10, height: 10 } },
+      { id: 'new', bounds: { x: 0, y: 0, width: 10, height: 10 }, hull: square }
+    ];
+    expect(findShapeAt(shapes, { x: 5, y: 5 })?.id).toBe('new');
+    expect(findShapeAt(shapes.slice(0, 2), { x: 5, y: 5 })?.id).toBe('old');
+    expect(findShapeAt(shapes, { x: 50, y: 5 })).toBeUndefined();
+  });
+});
+
+describe('pathNearBounds and unionBounds', () => {
+  it('checks paths against a margin around the box', () => {
+    const bounds = { x: 0, y: 0, width: 10, height: 10 };
+    expect(pathNearBounds([{ x: 15, y: 5 }], bounds, 6)).toBe(true);
+    expect(pathNearBounds([{ x: 15, y: 5 }], bounds, 4)).toBe(false);
+  });
+
+  it('joins boxes', () => {
+    expect(unionBounds([{ x: 0, y: 0, width: 10, height: 10 }, { x: 20, y: 5, width: 5, height: 20 }])).toEqual({
+      x: 0,
+      y: 0,
+      width: 25,
+      height: 25
+    });
+    expect(unionBounds([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import type { StrokePoint } from './canvas-text-layout';
+import { inkWidth, type InkStroke } from './ink-strokes';
+
+// The area a stroke's ink covers, in canvas pixels: an axis-aligned box for quick rejection
+// and the convex hull for precise hit testing and area measurement.
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Directions the pen outline is sampled in around each point; eight keeps hulls small while
+// staying within a few percent of the round pen tip
+const OUTLINE_DIRECTIONS = Array.from({ length: 8 }, (_, i) => (i * Math.PI) / 4);
+
+// Every stroke point widened to the pen tip, so bounds and hull cover the ink and not only
+// the path through its middle
+const inkOutline = (stroke: InkStroke): StrokePoint[] =>
+  stroke.points.flatMap(point => {
+    const radius = inkWidth(point.pressure) / 2;
+    return OUTLINE_DIRECTIONS.map(angle => ({ x: point.x + radius * Math.cos(angle), y: point.y + radius * Math.sin(angle) }));
+  });
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const boundsOf = (points: StrokePoint[]): Bounds => {
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x: round(x), y: round(y), width: round(Math.max(...xs) - x), height: round(Math.max(...ys) - y) };
+};
+
+const cross = (o: StrokePoint, a: StrokePoint, b: StrokePoint) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Andrew's monotone chain; the hull runs counter-clockwise in canvas coordinates (y down),
+// without repeating its first point
+export const convexHull = (points: StrokePoint[]): StrokePoint[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const lower: StrokePoint[] = [];
+  sorted.forEach(point => {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  });
+  const upper: StrokePoint[] = [];
+  [...sorted].reverse().forEach(point => {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+    upper.push(point);
+  });
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
+
+export const strokeBounds = (stroke: InkStroke): Bounds => boundsOf(inkOutline(stroke));
+
+export const strokeHull = (stroke: InkStroke): StrokePoint[] =>
+  convexHull(inkOutline(stroke)).map(point => ({ x: round(point.x), y: round(point.y) }));
+
+// Shoelace formula, in square canvas pixels
+export const hullArea = (hull: StrokePoint[]): number =>
+  Math.abs(hull.reduce((sum, point, i) => {
+    const next = hull[(i + 1) % hull.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+
+export const boundsContain = (bounds: Bounds, point: StrokePoint, margin = 0): boolean =>
+  point.x >= bounds.x - margin &&
+  point.x <= bounds.x + bounds.width + margin &&
+  point.y >= bounds.y - margin &&
+  point.y <= bounds.y + bounds.height + margin;
+
+// Whether any point of a path comes within `margin` of the box
+export const pathNearBounds = (path: StrokePoint[], bounds: Bounds, margin: number): boolean =>
+  path.some(point => boundsContain(bounds, point, margin));
+
+export const hullContains = (hull: StrokePoint[], point: StrokePoint): boolean => {
+  if (hull.length < 3) return false;
+  // Inside a convex polygon the point is on the same side of every edge
+  let sign = 0;
+  for (let i = 0; i < hull.length; i++) {
+    const side = Math.sign(cross(hull[i], hull[(i + 1) % hull.length], point));
+    if (side === 0) continue;
+    if (sign === 0) sign = side;
+    else if (side !== sign) return false;
+  }
+  return true;
+};
+
+// The topmost (most recently drawn) shape whose hull contains the point; the bounds check
+// skips most shapes cheaply
+export const findShapeAt = <T extends { bounds: Bounds; hull?: StrokePoint[] }>(shapes: T[], point: StrokePoint): T | undefined =>
+  [...shapes].reverse().find(shape => shape.hull && boundsContain(shape.bounds, point) && hullContains(shape.hull, point));
+
+// Smallest box around all the given boxes; undefined when there are none
+export const unionBounds = (boxes: Bounds[]): Bounds | undefined =>
+  boxes.length === 0
+    ? undefined
+    : boundsOf(boxes.flatMap(box => [{ x: box.x, y: box.y }, { x: box.x + box.width, y: box.y + box.height }]));
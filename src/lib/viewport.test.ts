@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_VIEWPORT,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  clampZoom,
+  fitViewport,
+  panViewport,
+  viewportTransform,
+  zoomViewport
+} from './viewport';
+
+// The page point under a view point, undoing the viewport transform
+const pageAt = (viewport: { x: number; y: number; zoom: number }, point: { x: number; y: number }) => ({
+  x: (point.x - viewport.x) / viewport.zoom,
+  y: (point.y - viewport.y) / viewport.zoom
+});
+
+describe('clampZoom', () => {
+  it('keeps zoom within its limits', () => {
+    expect(clampZoom(0.1)).toBe(MIN_ZOOM);
+    expect(clampZoom(2)).toBe(2);
+    expect(clampZoom(50)).toBe(MAX_ZOOM);
+  });
+});
+
+describe('panViewport', () => {
+  it('moves the page without changing zoom', () => {
+    expect(panViewport({ x: 10, y: 20, zoom: 2 }, 5, -5)).toEqual({ x: 15, y: 15, zoom: 2 });
+  });
+});
+
+describe('zoomViewport', () => {
+  it('keeps the page point under the origin in place', () => {
+    const origin = { x: 100, y: 50 };
+    const start = { x: 30, y: -40, zoom: 1.5 };
+    const zoomed = zoomViewport(start, 2, origin);
+    expect(zoomed.zoom).toBe(3);
+    expect(pageAt(zoomed, origin).x).toBeCloseTo(pageAt(start, origin).x);
+    expect(pageAt(zoomed, origin).y).toBeCloseTo(pageAt(start, origin).y);
+  });
+
+  it('stops at the zoom limits', () => {
+    expect(zoomViewport(DEFAULT_VIEWPORT, 100, { x: 0, y: 0 })).toEqual({ x: 0, y: 0, zoom: MAX_ZOOM });
+    expect(zoomViewport(DEFAULT_VIEWPORT, 0.01, { x: 0, y: 0 }).zoom).toBe(MIN_ZOOM);
+  });
+});
+
+describe('fitViewport', () => {
+  it('centres the content and fills the view up to the padding', () => {
+    const pageScale = 800 / 1024;
+    const viewport = fitViewport({ x: 80, y: 80, width: 880, height: 200 }, { width: 800, height: 600 }, pageScale);
+    const left = viewport.x + 80 * pageScale * viewport.zoom;
+    const right = viewport.x + 960 * pageScale * viewport.zoom;
+    expect(left).toBeCloseTo(24);
+    expect(right).toBeCloseTo(776);
+    const top = viewport.y + 80 * pageScale * viewport.zoom;
+    const bottom = viewport.y + 280 * pageScale * viewport.zoom;
+    expect((top + bottom) / 2).toBeCloseTo(300);
+  });
+
+  it('does not zoom past the limit for tiny content', () => {
+    expect(fitViewport({ x: 10, y: 10, width: 0, height: 0 }, { width: 800, height: 600 }, 1).zoom).toBe(MAX_ZOOM);
+  });
+});
+
+describe('viewportTransform', () => {
+  it('translates before scaling', () => {
+    expect(viewportTransform({ x: 10, y: -5, zoom: 2 })).toBe('translate(10px, -5px) scale(2)');
+  });
+});
@@ -0,0 +1,60 @@
+import type { StrokePoint } from './canvas-text-layout';
+import type { Bounds } from './stroke-geometry';
+
+// Pan and zoom of the canvas page, applied as a CSS transform to all of its layers at once so
+// they stay aligned. At zoom 1 with no offset the page fits the width of its view.
+
+export interface Viewport {
+  // Offset of the page's top-left corner in view (CSS) pixels
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 5;
+
+// Zoom factor per pixel of Ctrl+wheel (and trackpad pinch) scrolling
+export const WHEEL_ZOOM_SPEED = 0.01;
+
+export const clampZoom = (zoom: number): number => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+export const panViewport = (viewport: Viewport, dx: number, dy: number): Viewport => ({
+  ...viewport,
+  x: viewport.x + dx,
+  y: viewport.y + dy
+});
+
+// Zoom by `factor` around `origin` (view pixels), keeping the page point under it in place
+export const zoomViewport = (viewport: Viewport, factor: number, origin: StrokePoint): Viewport => {
+  const zoom = clampZoom(viewport.zoom * factor);
+  const ratio = zoom / viewport.zoom;
+  return {
+    x: origin.x - (origin.x - viewport.x) * ratio,
+    y: origin.y - (origin.y - viewport.y) * ratio,
+    zoom
+  };
+};
+
+// Centre `content` (page pixels) in a view of the given size and zoom it to fill the view;
+// `pageScale` is view pixels per page pixel at zoom 1
+export const fitViewport = (
+  content: Bounds,
+  view: { width: number; height: number },
+  pageScale: number,
+  padding = 24
+): Viewport => {
+  const width = Math.max(content.width, 1) * pageScale;
+  const height = Math.max(content.height, 1) * pageScale;
+  const zoom = clampZoom(Math.min((view.width - 2 * padding) / width, (view.height - 2 * padding) / height));
+  return {
+    x: view.width / 2 - (content.x + content.width / 2) * pageScale * zoom,
+    y: view.height / 2 - (content.y + content.height / 2) * pageScale * zoom,
+    zoom
+  };
+};
+
+export const viewportTransform = (viewport: Viewport): string =>
+  `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`;
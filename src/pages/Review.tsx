@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Eye, Zap, LibraryBig } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSaveSession } from "@/hooks/use-sessions";
+import { collectRefinementAnnotations } from "@/lib/refinement";
+import { readShareLink } from "@/lib/share-link";
+import type { FlushSession } from "@/lib/session-store";
+import AnnotationInterface from "@/components/AnnotationInterface";
+import CanvasStrokesPreview from "@/components/CanvasStrokesPreview";
+import PromptRefinement from "@/components/PromptRefinement";
+
+const Review = () => {
+  const location = useLocation();
+  const [session, setSession] = useState<FlushSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const saveSession = useSaveSession();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    setSession(null);
+    setError(null);
+
+    readShareLink(location.hash)
+      .then(shared => !cancelled && setSession(shared))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : "Could not open this link"));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [location.hash]);
+
+  const handleSaveCopy = () => {
+    if (!session) return;
+    saveSession.mutate(session, {
+      onSuccess: (saved) => toast({
+        title: "Copy saved",
+        description: `"${saved.title}" added to your library`,
+      }),
+      onError: (err) => toast({
+        title: "Save failed",
+        description: err instanceof Error ? err.message : "Could not write to browser storage",
+        variant: "destructive",
+      })
+    });
+  };
+
+  const handleRefinePrompt = () => {
+    document.getElementById("prompt-refinement")?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-8 py-6 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link to="/" className="w-12 h-12 rounded-2xl bg-gradient-to-br from-primary to-primary-glow flex items-center justify-center">
+              <Zap className="w-6 h-6 text-white" />
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">{session?.title ?? "Flush"}</h1>
+              <p className="text-lg text-muted-foreground flex items-center gap-2">
+                <Eye className="w-4 h-4" />
+                Shared annotations
+                <Badge variant="secondary">Read-only</Badge>
+              </p>
+            </div>
+          </div>
+          {session && (
+            <Button size="lg" variant="outline" onClick={handleSaveCopy} disabled={saveSession.isPending} className="gesture-zone h-12">
+              <LibraryBig className="w-5 h-5 mr-2" />
+              Save a copy
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto px-8 py-8">
+        <div className="max-w-6xl mx-auto space-y-8">
+          {error ? (
+            <Card className="p-8 text-center">
+              <h3 className="text-lg font-semibold text-foreground mb-2">Unable to open shared session</h3>
+              <p className="text-muted-foreground mb-4">{error}</p>
+              <Link to="/" className="text-primary underline">Return to Flush</Link>
+            </Card>
+          ) : !session ? (
+            <Card className="p-8 text-center text-muted-foreground">Opening shared session…</Card>
+          ) : (
+            <>
+              <Card className="p-6">
+                <h3 className="text-sm font-semibold text-muted-foreground mb-1">Original prompt</h3>
+                <p className="text-sm text-foreground">{session.originalPrompt}</p>
+              </Card>
+
+              <AnnotationInterface
+                content={session.content}
+                annotations={session.textAnnotations}
+                scale={session.scale}
+                annotators={session.annotators}
+                onContentChange={() => undefined}
+                onAnnotationsChange={() => undefined}
+                onRefinePrompt={handleRefinePrompt}
+                readOnly
+              />
+
+              <CanvasStrokesPreview
+                text={session.content}
+                annotations={session.canvasAnnotations}
+                scale={session.scale}
+              />
+
+              <div id="prompt-refinement">
+                <PromptRefinement
+                  originalPrompt={session.originalPrompt}
+                  originalResponse={session.content}
+                  annotations={collectRefinementAnnotations(session.textAnnotations, session.canvasAnnotations, session.scale)}
+                  scale={session.scale}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Review;